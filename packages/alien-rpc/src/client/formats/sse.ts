@@ -0,0 +1 @@
+export { default } from '@alien-rpc/client/formats/sse'
@@ -23,10 +23,49 @@ export type UserConfig = {
    * @default './client/generated/api.ts'
    */
   clientOutFile?: string
+  /**
+   * Where to emit an OpenAPI 3.1 document describing your HTTP routes,
+   * relative to outDir. No document is emitted by default.
+   */
+  openApiOutFile?: string
+  /**
+   * Where to emit a mock result for each route (for `defineMockClient`),
+   * relative to outDir. No mocks are emitted by default.
+   */
+  mocksOutFile?: string
+  /**
+   * A client module whose exported functions can be called by WebSocket
+   * routes (with `ctx.client`), relative to the root directory.
+   */
+  clientHandlersFile?: string
+  /**
+   * Where to save the contract of each route, relative to the root
+   * directory. Breaking changes are reported until the API version is
+   * changed. See `alien-rpc diff`.
+   */
+  lockFile?: string
   /**
    * The current version of your API, prefixed to each route path.
    */
   versionPrefix?: string
+  /**
+   * The versions of your API to serve at once, each prefixed to the route
+   * paths it serves. Routes choose their versions with `since` and
+   * `until`. A client file is written for each version.
+   */
+  versions?: string[]
+  /**
+   * The format of routes that return an async iterable. A route can
+   * override this with a `@format` tag in its JSDoc comment.
+   * @default 'json-seq'
+   */
+  streamFormat?: 'json-seq' | 'sse'
+  /**
+   * Revive `Date` and `bigint` values in route results on the client,
+   * instead of typing them as strings.
+   * @default false
+   */
+  reviveResults?: boolean
   /**
    * Do not format the generated files.
    * @default false
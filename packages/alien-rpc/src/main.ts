@@ -1,8 +1,8 @@
 #!/usr/bin/env node
-import cac from 'cac'
+import cac, { type Command } from 'cac'
 import { compose, JumpgenStatus } from 'jumpgen'
 import path from 'node:path'
-import { isArray, shake } from 'radashi'
+import { castArray, isArray, shake } from 'radashi'
 import { loadConfigFile } from './common/config.js'
 import { log } from './common/log.js'
 import {
@@ -14,158 +14,256 @@ import { UserConfig } from './config.js'
 
 const app = cac('alien-rpc')
 
-app
-  .command('[...include]', 'Generate route definitions for your API')
-  .example(
-    bin =>
-      `${bin} './server/src/routes/**/*.ts' --watch --serverOutFile ./server/src/api.ts --clientOutFile ./client/src/api.ts`
-  )
-  .option(
-    '--root <path>',
-    'The directory from which all other paths are relative',
-    { default: './' }
-  )
-  .option('-w, --watch', 'Watch for changes and regenerate files')
-  .option('--outDir <path>', 'Where to emit the generated files', {
-    default: './',
-  })
-  .option('--tsConfigFile <path>', 'The path to the `tsconfig.json` file', {
-    default: './tsconfig.json',
-  })
-  .option(
-    '--serverOutFile <path>',
-    'Where to emit the server file, relative to outDir',
-    { default: './server/generated/api.ts' }
-  )
-  .option(
-    '--clientOutFile <path>',
-    'Where to emit the client file, relative to outDir',
-    { default: './client/generated/api.ts' }
-  )
-  .option(
-    '--versionPrefix <version>',
-    'The current version of your API, prefixed to each route path'
-  )
-  .option('--no-format', 'Do not format the generated files')
-  .option('--no-config-file', 'Do not load a config file')
-  .option('--verbose', 'Print diagnostics for node_modules')
-  .action(
-    async (
-      include: string[],
-      {
-        root,
-        watch,
-        ...args
-      }: UserConfig & {
-        root: string
-        watch?: boolean
-        noConfigFile?: boolean
-        verbose?: boolean
-      }
-    ) => {
-      const { default: create } = await import('@alien-rpc/generator')
+type GeneratorArgs = UserConfig & {
+  root: string
+  watch?: boolean
+  noConfigFile?: boolean
+  verbose?: boolean
+}
 
-      const configs: any[] = []
-      if (!args.noConfigFile) {
-        const result = await loadConfigFile(process.cwd())
-        if (result.configPath) {
-          log.comment(
-            'Using config file:',
-            path.relative(process.cwd(), result.configPath)
-          )
-          if (isArray(result.config)) {
-            result.config.forEach(config => configs.push(config))
-          } else {
-            configs.push(result.config)
-          }
-        }
-      }
-      if (!configs.length) {
-        if (!include.length) {
-          log.error('Must provide at least one glob')
-          process.exit(1)
-        }
-        configs.push({})
-      }
+const withGeneratorOptions = (command: Command) =>
+  command
+    .option(
+      '--root <path>',
+      'The directory from which all other paths are relative',
+      { default: './' }
+    )
+    .option('--outDir <path>', 'Where to emit the generated files', {
+      default: './',
+    })
+    .option('--tsConfigFile <path>', 'The path to the `tsconfig.json` file', {
+      default: './tsconfig.json',
+    })
+    .option(
+      '--serverOutFile <path>',
+      'Where to emit the server file, relative to outDir',
+      { default: './server/generated/api.ts' }
+    )
+    .option(
+      '--clientOutFile <path>',
+      'Where to emit the client file, relative to outDir',
+      { default: './client/generated/api.ts' }
+    )
+    .option(
+      '--openApiOutFile <path>',
+      'Where to emit an OpenAPI document, relative to outDir'
+    )
+    .option(
+      '--mocksOutFile <path>',
+      'Where to emit mock results for each route, relative to outDir'
+    )
+    .option(
+      '--clientHandlersFile <path>',
+      'A client module whose exported functions can be called by WebSocket routes'
+    )
+    .option(
+      '--versionPrefix <version>',
+      'The current version of your API, prefixed to each route path'
+    )
+    .option(
+      '--versions <version>',
+      'An API version to serve, prefixed to the paths of its routes (repeatable)'
+    )
+    .option(
+      '--streamFormat <format>',
+      'The format of streaming routes (json-seq or sse)'
+    )
+    .option(
+      '--reviveResults',
+      'Revive Date and bigint values in responses, instead of typing them as strings'
+    )
+    .option('--no-format', 'Do not format the generated files')
+    .option('--no-config-file', 'Do not load a config file')
+    .option('--verbose', 'Print diagnostics for node_modules')
+
+withGeneratorOptions(
+  app
+    .command('[...include]', 'Generate route definitions for your API')
+    .example(
+      bin =>
+        `${bin} './server/src/routes/**/*.ts' --watch --serverOutFile ./server/src/api.ts --clientOutFile ./client/src/api.ts`
+    )
+    .option('-w, --watch', 'Watch for changes and regenerate files')
+    .option(
+      '--lockFile <path>',
+      'Where to save the route contracts, relative to the root directory'
+    )
+).action((include: string[], args: GeneratorArgs) =>
+  runGenerator(include, args)
+)
+
+withGeneratorOptions(
+  app
+    .command(
+      'diff [...include]',
+      'Compare your routes to the lockfile, failing on breaking changes that lack a new API version'
+    )
+    .example(bin => `${bin} diff './server/src/routes/**/*.ts'`)
+    .option(
+      '--lockFile <path>',
+      'Where the route contracts are saved, relative to the root directory',
+      { default: './alien-rpc.lock.json' }
+    )
+).action((include: string[], args: GeneratorArgs) =>
+  runGenerator(include, { ...args, watch: false, dryRun: true })
+)
 
-      root = path.resolve(root)
-      log('Using directory:', root)
-      log.setRootDirectory(root)
+async function runGenerator(
+  include: string[],
+  { root, watch, ...args }: GeneratorArgs & { dryRun?: boolean }
+) {
+  const { default: create } = await import('@alien-rpc/generator')
 
-      const generate = compose(
-        ...configs.map(config =>
-          create({
-            ...args,
-            ...shake(config),
-            include: include.length ? include : config.include,
-            outDir: args.outDir ?? './',
-          })
-        )
+  const configs: any[] = []
+  if (!args.noConfigFile) {
+    const result = await loadConfigFile(process.cwd())
+    if (result.configPath) {
+      log.comment(
+        'Using config file:',
+        path.relative(process.cwd(), result.configPath)
       )
+      if (isArray(result.config)) {
+        result.config.forEach(config => configs.push(config))
+      } else {
+        configs.push(result.config)
+      }
+    }
+  }
+  if (!configs.length) {
+    if (!include.length) {
+      log.error('Must provide at least one glob')
+      process.exit(1)
+    }
+    configs.push({})
+  }
 
-      const generator = generate({
-        root,
-        watch,
+  root = path.resolve(root)
+  log('Using directory:', root)
+  log.setRootDirectory(root)
+
+  const generate = compose(
+    ...configs.map(config =>
+      create({
+        ...args,
+        // The option is a string unless it's repeated.
+        versions: args.versions && castArray(args.versions),
+        ...shake(config),
+        include: include.length ? include : config.include,
+        outDir: args.outDir ?? './',
       })
+    )
+  )
 
-      let generating = false
+  const generator = generate({
+    root,
+    watch,
+  })
+
+  let generating = false
+  let failed = false
 
-      generator.events
-        .on('start', () => {
-          if (!generating) {
-            log('Generating...')
-            generating = true
+  generator.events
+    .on('start', () => {
+      if (!generating) {
+        log(args.dryRun ? 'Comparing routes...' : 'Generating...')
+        generating = true
+      }
+    })
+    .on('finish', () => {
+      if (generating && generator.status === JumpgenStatus.Finished) {
+        if (!args.dryRun) {
+          log.success('Your files are now up to date!')
+        }
+        generating = false
+      }
+    })
+    .on('custom', event => {
+      if (event.type === 'route') {
+        if (args.dryRun) {
+          return
+        }
+        const { resolvedHttpRoute, resolvedWsTopic } = event.route
+        if (resolvedWsTopic) {
+          log('Generated topic:', resolvedWsTopic.topic)
+        } else {
+          log(
+            'Generated route:',
+            resolvedHttpRoute
+              ? resolvedHttpRoute.method + ' ' + resolvedHttpRoute.pathname
+              : `GET /ws (${event.route.name})`
+          )
+        }
+      } else if (event.type === 'warning') {
+        log.warn(event.message)
+      } else if (event.type === 'info') {
+        if (isArray(event.message)) {
+          log(...event.message)
+        } else {
+          log(event.message)
+        }
+      } else if (event.type === 'contracts') {
+        const { lockFile, changes, versionChanged } = event
+        if (!changes) {
+          if (args.dryRun) {
+            log.error('Lockfile not found:', lockFile)
+            failed = true
           }
-        })
-        .on('finish', () => {
-          if (generating && generator.status === JumpgenStatus.Finished) {
-            log.success('Your files are now up to date!')
-            generating = false
+          return
+        }
+        for (const change of changes) {
+          const message = `${change.route}: ${change.message}`
+          if (change.breaking) {
+            log.warn(message + (versionChanged ? '' : ' (breaking)'))
+          } else {
+            log(message)
           }
-        })
-        .on('custom', event => {
-          if (event.type === 'route') {
-            const { resolvedHttpRoute } = event.route
-            log(
-              'Generated route:',
-              resolvedHttpRoute
-                ? resolvedHttpRoute.method + ' ' + resolvedHttpRoute.pathname
-                : `GET /ws (${event.route.name})`
+        }
+        if (versionChanged) {
+          log('The API version was changed, so breaking changes are allowed')
+        } else if (changes.some(change => change.breaking)) {
+          if (args.dryRun) {
+            log.error(
+              'Breaking changes were found. Change the API version to allow them.'
+            )
+            failed = true
+          } else {
+            log.warn(
+              'Breaking changes were found, so the lockfile was not updated. Change the API version to allow them.'
             )
-          } else if (event.type === 'warning') {
-            log.warn(event.message)
-          } else if (event.type === 'info') {
-            if (isArray(event.message)) {
-              log(...event.message)
-            } else {
-              log(event.message)
-            }
           }
-        })
-        .on('write', file => {
-          log('Writing file:', path.relative(process.cwd(), file))
-        })
-        .on('abort', () => {
-          log.warn('Ending prematurely...')
-        })
-
-      let shortcuts: Shortcut[]
-      if (watch) {
-        log.enableTimestamps(true)
-        registerConsoleShortcuts(
-          (shortcuts = [
-            [['return'], 'regenerate files', () => generator.rerun()],
-          ])
-        )
+        } else if (args.dryRun) {
+          log.success(
+            changes.length
+              ? 'No breaking changes were found'
+              : 'Your routes match the lockfile'
+          )
+        }
       }
+    })
+    .on('write', file => {
+      log('Writing file:', path.relative(process.cwd(), file))
+    })
+    .on('abort', () => {
+      log.warn('Ending prematurely...')
+    })
 
-      await generator
-      if (watch) {
-        log.comment('Watching for changes...')
-        printShortcutsHelp(shortcuts!)
-      }
-    }
-  )
+  let shortcuts: Shortcut[]
+  if (watch) {
+    log.enableTimestamps(true)
+    registerConsoleShortcuts(
+      (shortcuts = [[['return'], 'regenerate files', () => generator.rerun()]])
+    )
+  }
+
+  await generator
+  if (watch) {
+    log.comment('Watching for changes...')
+    printShortcutsHelp(shortcuts!)
+  }
+  if (failed) {
+    process.exitCode = 1
+  }
+}
 
 app.help()
 app.parse()
@@ -0,0 +1 @@
+export * from '@alien-rpc/service/testing'
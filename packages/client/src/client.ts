@@ -3,8 +3,8 @@ import { bodylessMethods } from '@alien-rpc/route'
 import * as jsonQS from '@json-qs/json-qs'
 import { buildPath } from 'pathic'
 import { isObject, isString, shake, sleep } from 'radashi'
-import { HTTPError } from './error.js'
-import http from './protocols/http.js'
+import { HTTPError, ProblemError } from './error.js'
+import http, { getRequestPath } from './protocols/http.js'
 import { kClientProperty, kRouteProperty } from './symbols.js'
 import type {
   ClientOptions,
@@ -16,10 +16,23 @@ import type {
   RouteFunctions,
   RouteProtocol,
   RouteTypeInfo,
+  ws,
 } from './types.js'
+import {
+  getAuthGeneration,
+  getAuthorization,
+  refreshAuthToken,
+} from './utils/auth.js'
+import { createBatchQueue } from './utils/batch.js'
 import { iterateHooks } from './utils/callHook.js'
+import {
+  sendConditionalRequest,
+  type ValidatedResponseCache,
+} from './utils/conditional.js'
+import { addConnectionListener } from './utils/connectionEvents.js'
 import { mergeHeaders } from './utils/mergeHeaders.js'
 import { mergeOptions } from './utils/mergeOptions.js'
+import { invalidateCachedResults } from './utils/resultCache.js'
 import { getShouldRetry, type ShouldRetryFunction } from './utils/retry.js'
 import { resolvePrefixUrl, urlWithPathname } from './utils/url.js'
 
@@ -33,9 +46,33 @@ type ClientPrototype<
   readonly options: Readonly<ResolvedClientOptions<TErrorMode>>
   ws?: WebSocket
 
+  /**
+   * Listen for changes to the WebSocket connection. Returns a function
+   * that removes the listener.
+   */
+  on<E extends keyof ws.ConnectionEvents>(
+    event: E,
+    listener: ws.ConnectionEvents[E]
+  ): () => void
+
   extend<TNewErrorMode extends ErrorMode = TErrorMode>(
     defaults: ClientOptions<TNewErrorMode>
   ): Client<API, TNewErrorMode>
+
+  /**
+   * Remove the results of a route from the `resultCache`, so the next
+   * call sends a request. Without params, every result of the route is
+   * removed.
+   *
+   * ```ts
+   * await client.updatePost({ id, title })
+   * client.invalidate(client.getPost, { id })
+   * ```
+   */
+  invalidate<TRoute extends Route>(
+    routeFunction: Function & RouteTypeInfo<TRoute>,
+    params?: Route.inferParams<TRoute>
+  ): void
 }
 
 export type Client<
@@ -55,72 +92,191 @@ export function defineClient<
 
   let fetch: Fetch | undefined
 
-  const client: Client<API, TErrorMode> = createClientProxy(routes, {
+  // Route protocols receive this object instead of the proxy, so it's
+  // used to key the connection listeners.
+  const prototype: ClientPrototype<API, TErrorMode> = {
     options: mergedOptions,
     get fetch() {
       return (fetch ??= createFetchFunction(client))
     },
+    on(event, listener) {
+      return addConnectionListener(prototype, event, listener)
+    },
     extend(options) {
       return defineClient(routes, options, client)
     },
-  })
+    invalidate(routeFunction, params) {
+      const { resultCache } = prototype.options
+      if (resultCache) {
+        invalidateCachedResults(
+          resultCache,
+          routeFunction.name,
+          params && getRequestPath(getRouteFromFunction(routeFunction), params)
+        )
+      }
+    },
+  }
+
+  const client: Client<API, TErrorMode> = createClientProxy(routes, prototype)
 
   return client
 }
 
 function createFetchFunction(client: Client): Fetch {
-  const { prefixUrl, fetch = globalThis.fetch, hooks } = client.options
+  const { prefixUrl, fetch = globalThis.fetch, hooks, auth } = client.options
+
+  const createError = async (request: Request, response: Response) => {
+    let error: HTTPError | ProblemError
+    const contentType = response.headers.get('Content-Type')
+    if (contentType === 'application/problem+json') {
+      error = new ProblemError(await response.json(), request, response)
+    } else {
+      const body =
+        contentType === 'application/json' ? await response.json() : undefined
+      error = new HTTPError(request, response, body)
+      // The body may have a message and the name of the error class.
+      Object.assign(error, body)
+    }
+    for (const beforeError of iterateHooks(hooks, 'beforeError')) {
+      error = await beforeError(error)
+    }
+    return error
+  }
 
   const tryRequest = async (
     request: Request,
     shouldRetry: ShouldRetryFunction,
-    timeout: number
-  ) => {
-    let response: Response
-    if (timeout > 0) {
-      const timeoutCtrl = new AbortController()
-      const timeoutId = setTimeout(() => {
-        timeoutCtrl.abort(new DOMException('Request timed out', 'TimeoutError'))
-      }, timeout * 1000)
-
-      response = await fetch(
-        new Request(request, {
-          signal: request.signal
-            ? AbortSignal.any([timeoutCtrl.signal, request.signal])
-            : timeoutCtrl.signal,
-        })
-      )
-      clearTimeout(timeoutId)
-    } else {
-      response = await fetch(request)
+    timeout: number,
+    replayed = false
+  ): Promise<Response> => {
+    let response: Response | undefined
+    // Keep the original request unused, so it can be replayed after a
+    // token refresh or retried without the changes of `beforeRequest`
+    // hooks.
+    let attemptRequest = request.clone()
+    let authGeneration = 0
+    if (auth) {
+      authGeneration = getAuthGeneration(auth)
+
+      const authorization = await getAuthorization(auth)
+      if (authorization) {
+        attemptRequest.headers.set('Authorization', authorization)
+      }
+    }
+    for (const beforeRequest of iterateHooks(hooks, 'beforeRequest')) {
+      const result = await beforeRequest({ request: attemptRequest })
+      if (result instanceof Response) {
+        response = result
+        break
+      }
+      if (result instanceof Request) {
+        attemptRequest = result
+      }
+    }
+    // A hook may provide the response, in which case the request is never
+    // sent.
+    if (!response) {
+      if (timeout > 0) {
+        const timeoutCtrl = new AbortController()
+        const timeoutId = setTimeout(() => {
+          timeoutCtrl.abort(
+            new DOMException('Request timed out', 'TimeoutError')
+          )
+        }, timeout * 1000)
+
+        response = await fetch(
+          new Request(attemptRequest, {
+            signal: attemptRequest.signal
+              ? AbortSignal.any([timeoutCtrl.signal, attemptRequest.signal])
+              : timeoutCtrl.signal,
+          })
+        )
+        clearTimeout(timeoutId)
+      } else {
+        response = await fetch(attemptRequest)
+      }
     }
     for (const afterResponse of iterateHooks(hooks, 'afterResponse')) {
-      const newResponse = await afterResponse({ request, response })
+      const newResponse = await afterResponse({
+        request: attemptRequest,
+        response,
+      })
       if (newResponse instanceof Response) {
         response = newResponse
       }
     }
+    if (response.status === 401 && auth && !replayed) {
+      const refreshed = await refreshAuthToken(auth, authGeneration).then(
+        () => true,
+        () => false
+      )
+      if (refreshed) {
+        request.signal.throwIfAborted()
+        return tryRequest(request, shouldRetry, timeout, true)
+      }
+    }
     if (response.status >= 400) {
       const retryDelay = shouldRetry(response)
       if (retryDelay !== false) {
         request.signal.throwIfAborted()
         await sleep(retryDelay)
-        return tryRequest(request, shouldRetry, timeout)
-      }
-      let error = new HTTPError(request, response)
-      if (response.headers.get('Content-Type') === 'application/json') {
-        const overrides = await response.json()
-        Object.assign(error, overrides)
-      }
-      for (const beforeError of iterateHooks(hooks, 'beforeError')) {
-        error = await beforeError(error)
+        return tryRequest(request, shouldRetry, timeout, replayed)
       }
-      throw error
+      throw await createError(attemptRequest, response)
     }
     return response
   }
 
-  return (input, { query, json, timeout, ...init } = {}) => {
+  // Calls made in the same tick are sent together, and their responses
+  // are streamed back in one response.
+  const enqueueRequest = createBatchQueue(
+    client.options.batchLimit ?? 20,
+    requests =>
+      fetchWithOptions('_batch', {
+        method: 'POST',
+        json: requests.map(({ request, path, json }) => ({
+          method: request.method,
+          path,
+          body: json,
+        })),
+      })
+  )
+
+  // GET responses with an ETag are kept, so the server can respond with
+  // 304 Not Modified instead of sending the same body again.
+  const validatedResponses: ValidatedResponseCache = new Map()
+
+  // Identical GET requests share one response while it's in flight. Each
+  // caller gets a copy, except the last one, which gets the original.
+  const inflightResponses = new Map<
+    string,
+    { promise: Promise<Response>; callers: number }
+  >()
+
+  const shareResponse = (key: string, send: () => Promise<Response>) => {
+    let inflight = inflightResponses.get(key)
+    if (!inflight) {
+      const promise = send()
+      const remove = () => inflightResponses.delete(key)
+      promise.then(remove, remove)
+
+      inflight = { promise, callers: 0 }
+      inflightResponses.set(key, inflight)
+    }
+    const shared = inflight
+    shared.callers++
+    return shared.promise.then(response =>
+      --shared.callers ? response.clone() : response
+    )
+  }
+
+  const fetchWithOptions: Fetch = (
+    input,
+    { query, json, timeout, batch, ...init } = {}
+  ) => {
+    // Requests with their own headers or a non-JSON body can't be batched.
+    const batchable = batch && !init.headers && !init.body
+
     const headers = mergeHeaders(client.options.headers, init.headers)
 
     let contentType = headers.get('Content-Type')
@@ -151,12 +307,55 @@ function createFetchFunction(client: Client): Fetch {
       headers,
     })
 
-    return tryRequest(
-      request,
-      getShouldRetry(request, client.options.retry),
-      timeout ?? 60
-    )
+    // Shared by the batched and unbatched attempts, so the retry limit
+    // counts both.
+    const shouldRetry = getShouldRetry(request, client.options.retry)
+
+    const send = () => {
+      const sendRequest = () => tryRequest(request, shouldRetry, timeout ?? 60)
+      return request.method === 'GET'
+        ? sendConditionalRequest(validatedResponses, request, sendRequest)
+        : sendRequest()
+    }
+
+    const dispatch = () => {
+      if (!batchable) {
+        return send()
+      }
+      const prefix = urlWithPathname(resolvePrefixUrl(prefixUrl), '').href
+      return enqueueRequest({
+        request,
+        path: url.href.slice(prefix.length),
+        json,
+        timeout: timeout ?? 60,
+        send,
+      }).then(async response => {
+        if (response.status >= 400) {
+          // A call that failed in a batch is sent again on its own, so it
+          // gets the same token refresh and retries as any other call.
+          if (response.status === 401 && auth) {
+            return send()
+          }
+          const retryDelay = shouldRetry(response)
+          if (retryDelay !== false) {
+            await sleep(retryDelay)
+            request.signal.throwIfAborted()
+            return send()
+          }
+          throw await createError(request, response)
+        }
+        return response
+      })
+    }
+
+    // Requests with their own headers or signal are never shared.
+    if (request.method === 'GET' && !init.headers && !init.signal) {
+      return shareResponse(url.href, dispatch)
+    }
+    return dispatch()
   }
+
+  return fetchWithOptions
 }
 
 function createClientProxy<API extends ClientRoutes>(
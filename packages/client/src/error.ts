@@ -1,16 +1,155 @@
-export class HTTPError extends Error {
-  readonly name = 'HTTPError'
+import type { ws } from './types.js'
+
+/**
+ * An error response of an HTTP route. When the route declares the errors
+ * its handler may throw, the `status` can be narrowed to get the type of
+ * an error's `body`.
+ */
+export class HTTPError<
+  TStatus extends number = number,
+  TBody = unknown,
+> extends Error {
+  /**
+   * The class name of the error response, like `"ConflictError"`, or
+   * `"HTTPError"` if the response doesn't have one.
+   */
+  readonly name: string = 'HTTPError'
+  readonly status: TStatus
   constructor(
     readonly request: Request,
-    readonly response: Response
+    readonly response: Response,
+    /**
+     * The decoded JSON body of the response, or undefined if it has none.
+     */
+    readonly body: TBody = undefined as TBody
   ) {
     super(
       response.statusText ||
         `Server responded with ${response.status} status code`
     )
+    this.status = response.status as TStatus
   }
 }
 
 export class NetworkError extends Error {
   readonly name = 'NetworkError'
 }
+
+/**
+ * An RFC 9457 problem details object.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9457
+ */
+export type ProblemDetails = {
+  type: string
+  title: string
+  status: number
+  detail?: string
+  instance?: string
+  [extension: string]: unknown
+}
+
+/**
+ * An error sent by a server with the `problemDetails` option. It's thrown
+ * for `application/problem+json` responses, error records of streaming
+ * routes, and errors of websocket routes.
+ */
+export class ProblemError<
+  TExtensions extends Record<string, unknown> = Record<string, unknown>,
+> extends Error {
+  readonly name = 'ProblemError'
+  /** A URI that identifies the problem type. */
+  readonly type: string
+  /** A short summary of the problem type. */
+  readonly title: string
+  /** The HTTP status code. */
+  readonly status: number
+  /** An explanation specific to this occurrence of the problem. */
+  readonly detail: string | undefined
+  /** A URI that identifies this occurrence of the problem. */
+  readonly instance: string | undefined
+  /** The other members of the problem details. */
+  readonly extensions: TExtensions
+
+  constructor(
+    problem: ProblemDetails,
+    /** Only defined for HTTP responses. */
+    readonly request?: Request,
+    /** Only defined for HTTP responses. */
+    readonly response?: Response
+  ) {
+    const { type, title, status, detail, instance, ...extensions } = problem
+    super(detail ?? title)
+    this.type = type
+    this.title = title
+    this.status = status
+    this.detail = detail
+    this.instance = instance
+    this.extensions = extensions as TExtensions
+  }
+}
+
+/**
+ * Check if a value has the required members of problem details.
+ */
+export function isProblemDetails(value: unknown): value is ProblemDetails {
+  return (
+    value != null &&
+    typeof (value as ProblemDetails).type === 'string' &&
+    typeof (value as ProblemDetails).status === 'number'
+  )
+}
+
+type ValidationIssue = { message: string; path: string }
+
+/**
+ * The members of a validation error. Only the first issue is described by
+ * `path`, unless the server lists every issue in `errors`.
+ */
+type ValidationDetails = {
+  path?: unknown
+  errors?: ValidationIssue[]
+}
+
+function isWebSocketRequestError(error: unknown): error is ws.RequestError {
+  return error instanceof Error && error.name === 'ws.RequestError'
+}
+
+/**
+ * Map the invalid fields of a request to their error messages. A server
+ * with the `validationErrors: "all"` option lists every invalid field,
+ * while others only describe the first one. Keys are the JSON pointers of
+ * the fields, joined with dots (e.g. `author.name` or `tags.0`).
+ *
+ * Errors that aren't about validation produce an empty object.
+ */
+export function getFieldErrors(error: unknown): Record<string, string[]> {
+  // Problem details keep their members in `extensions`, while websocket
+  // errors keep them in `data`.
+  const details = (
+    error instanceof ProblemError
+      ? error.extensions
+      : isWebSocketRequestError(error)
+        ? error.data
+        : error
+  ) as ValidationDetails | null | undefined
+
+  const issues: ValidationIssue[] = Array.isArray(details?.errors)
+    ? details.errors
+    : typeof details?.path === 'string'
+      ? [{ message: (error as Error).message, path: details.path }]
+      : []
+
+  const fieldErrors: Record<string, string[]> = {}
+  for (const { message, path } of issues) {
+    const field = path
+      .split('/')
+      .slice(1)
+      .map(key => key.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .join('.')
+
+    fieldErrors[field] ??= []
+    fieldErrors[field].push(message)
+  }
+  return fieldErrors
+}
@@ -1,149 +1,83 @@
 import type { Client } from '../client.js'
 import type {
+  HeadersInit,
   RequestOptions,
   ResponseFormat,
   ResponseParser,
   ResponseStream,
-  RoutePagination,
+  Route,
 } from '../types.js'
-
-const parseResponse = ((promisedResponse, client) => {
-  async function* parse() {
-    const response = await promisedResponse
-    if (!response.body) {
-      return
-    }
-    const parser = new TransformStream(parseJSONSequence())
-    for await (const value of response.body.pipeThrough(parser)) {
-      if (value != null && isRoutePagination(value)) {
-        attachPageMethods(responseStream, value, client)
-      } else if (value != null && isRouteError(value)) {
-        throw Object.assign(new Error(), value.$error)
-      } else {
-        yield value
-      }
-    }
-  }
-
-  const responseStream: ResponseStream<any> = parse() as any
-  responseStream.toArray = toArray
-  return responseStream
-}) satisfies ResponseParser
+import { parseJSONSequence } from '../utils/jsonSequence.js'
+import { mergeHeaders } from '../utils/mergeHeaders.js'
+import { createResponseStream, isRouteCursor } from '../utils/responseStream.js'
+
+const parseResponse = ((promisedResponse, client, route, resend) => {
+  return createResponseStream(
+    parseRecords(promisedResponse, resend),
+    route,
+    (path, options) => requestPage(client, route, path, options)
+  )
+}) satisfies ResponseParser<ResponseStream<any>>
 
 export default {
   name: 'json-seq',
   parse: parseResponse,
 } satisfies ResponseFormat
 
-async function toArray(this: AsyncIterableIterator<any>) {
-  const result = []
-  for await (const value of this) {
-    result.push(value)
-  }
-  return result
-}
-
-function requestPage(client: Client, path: string, options?: RequestOptions) {
-  return parseResponse(client.fetch(path, options), client)
-}
-
-function attachPageMethods(
-  responseStream: ResponseStream<any>,
-  object: RoutePagination,
-  client: Client
-) {
-  if (object.$prev) {
-    responseStream.previousPage = options =>
-      requestPage(client, object.$prev!, options)
-  }
-  if (object.$next) {
-    responseStream.nextPage = options =>
-      requestPage(client, object.$next!, options)
-  }
-}
-
-function isRoutePagination(arg: {}): arg is RoutePagination {
-  // The server ensures both `prev` and `next` are defined, even though the
-  // RpcPagination type says otherwise.
-  return (
-    Object.prototype.hasOwnProperty.call(arg, '$prev') &&
-    Object.prototype.hasOwnProperty.call(arg, '$next') &&
-    hasExactKeyCount(arg, 2)
-  )
-}
-
-function isRouteError(arg: {}): arg is { $error: any } {
-  return (
-    Object.prototype.hasOwnProperty.call(arg, '$error') &&
-    hasExactKeyCount(arg, 1)
+function requestPage(
+  client: Client,
+  route: Route,
+  path: string,
+  options?: RequestOptions
+): ResponseStream<any> {
+  return parseResponse(client.fetch(path, options), client, route, headers =>
+    client.fetch(path, {
+      ...options,
+      headers: mergeHeaders(options?.headers, headers),
+    })
   )
 }
 
-function hasExactKeyCount(object: {}, count: number) {
-  let i = 0
-  for (const _ in object) {
-    if (++i > count) {
-      break
-    }
-  }
-  return i === count
-}
-
-function parseJSONSequence(): Transformer<Uint8Array, object> {
-  const decoder = new TextDecoder()
-  const separator = 0x1e // ASCII code for Record Separator
-  const lineFeed = 0x0a // ASCII code for Line Feed
-
-  let buffer = new Uint8Array(0)
-
-  const parse = (controller: TransformStreamDefaultController) => {
-    // Verify that the first byte is a record separator.
-    if (buffer.at(0) !== separator) {
-      throw new Error('Invalid JSON sequence')
-    }
-
-    let nextIndex = 0
-    let endIndex: number
-
-    while (nextIndex < buffer.length) {
-      endIndex = buffer.indexOf(separator, nextIndex + 1)
-      if (endIndex === -1) {
-        endIndex = buffer.length
-      }
-      if (buffer.at(endIndex - 1) !== lineFeed) {
+/**
+ * Parse the records of a JSON text sequence. If the connection is lost,
+ * the request is sent again with the last `{ $cursor }` record received,
+ * as long as a new cursor was received since the last attempt.
+ */
+async function* parseRecords(
+  promisedResponse: Promise<Response>,
+  resend: (headers: HeadersInit) => Promise<Response>
+) {
+  let response = await promisedResponse
+  let cursor: string | undefined
+
+  while (response.body) {
+    const reader = response.body
+      .pipeThrough(new TransformStream(parseJSONSequence()))
+      .getReader()
+
+    let resumable = false
+    while (true) {
+      let result: ReadableStreamReadResult<object>
+      try {
+        result = await reader.read()
+      } catch (error: any) {
+        if (!resumable || error?.name === 'AbortError') {
+          throw error
+        }
         break
       }
-      // Decode the text between the record separator and the line feed.
-      const text = decoder.decode(buffer.subarray(nextIndex + 1, endIndex - 1))
-      controller.enqueue(JSON.parse(text))
-      nextIndex = endIndex
-    }
-
-    return nextIndex
-  }
-
-  return {
-    transform(chunk: Uint8Array, controller) {
-      buffer = concatUint8Arrays(buffer, chunk)
-      const nextIndex = parse(controller)
-      if (nextIndex > 0) {
-        buffer = buffer.subarray(nextIndex)
+      if (result.done) {
+        return
       }
-    },
-    flush(controller) {
-      if (buffer.length) {
-        parse(controller)
+      const record = result.value
+      if (record != null && isRouteCursor(record)) {
+        cursor = encodeURIComponent(JSON.stringify(record.$cursor))
+        resumable = true
+      } else {
+        yield record
       }
-    },
-  }
-}
+    }
 
-function concatUint8Arrays(
-  a: Uint8Array,
-  b: Uint8Array
-): Uint8Array<ArrayBuffer> {
-  const result = new Uint8Array(a.length + b.length)
-  result.set(a, 0)
-  result.set(b, a.length)
-  return result
+    response = await resend({ 'X-Stream-Cursor': cursor })
+  }
 }
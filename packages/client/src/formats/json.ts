@@ -1,13 +1,15 @@
 import { ResponseParser } from '../types.js'
+import { revive } from '../utils/revive.js'
 
 type JSON = { [key: string]: JSON | undefined } | readonly JSON[] | JSONValue
 type JSONValue = string | number | boolean | null
 
-export default (async function parseResponse(promisedResponse) {
+export default (async function parseResponse(promisedResponse, _, route) {
   const response = await promisedResponse
 
   // Empty response has no content type.
   if (response.headers.get('Content-Type') === 'application/json') {
-    return response.json() as Promise<JSON>
+    const result = (await response.json()) as JSON
+    return route.revive ? revive(result, route.revive) : result
   }
 } satisfies ResponseParser<Promise<JSON | undefined>>)
@@ -0,0 +1,163 @@
+import type { Client } from '../client.js'
+import type {
+  HeadersInit,
+  RequestOptions,
+  ResponseFormat,
+  ResponseParser,
+  ResponseStream,
+  Route,
+} from '../types.js'
+import { mergeHeaders } from '../utils/mergeHeaders.js'
+import { createResponseStream } from '../utils/responseStream.js'
+
+const parseResponse = ((promisedResponse, client, route, resend) => {
+  return createResponseStream(
+    parseEventStream(promisedResponse, resend),
+    route,
+    (path, options) => requestPage(client, route, path, options)
+  )
+}) satisfies ResponseParser<ResponseStream<any>>
+
+export default {
+  name: 'sse',
+  parse: parseResponse,
+} satisfies ResponseFormat
+
+function requestPage(
+  client: Client,
+  route: Route,
+  path: string,
+  options?: RequestOptions
+): ResponseStream<any> {
+  return parseResponse(client.fetch(path, options), client, route, headers =>
+    client.fetch(path, {
+      ...options,
+      headers: mergeHeaders(options?.headers, headers),
+    })
+  )
+}
+
+type ServerSentEvent = {
+  id?: string
+  data?: string
+  retry?: number
+}
+
+/**
+ * Parse the JSON data of each event. If the connection is lost, the
+ * request is sent again with a `Last-Event-ID` header, as long as an event
+ * with an ID was received since the last attempt.
+ */
+async function* parseEventStream(
+  promisedResponse: Promise<Response>,
+  resend: (headers: HeadersInit) => Promise<Response>
+) {
+  let response = await promisedResponse
+  let lastEventId: string | undefined
+  let retryDelay = 1000
+
+  while (response.body) {
+    const reader = response.body
+      .pipeThrough(new TextDecoderStream())
+      .pipeThrough(new TransformStream(parseEvents()))
+      .getReader()
+
+    let resumable = false
+    while (true) {
+      let result: ReadableStreamReadResult<ServerSentEvent>
+      try {
+        result = await reader.read()
+      } catch (error: any) {
+        if (!resumable || error?.name === 'AbortError') {
+          throw error
+        }
+        break
+      }
+      if (result.done) {
+        return
+      }
+      const event = result.value
+      if (event.retry !== undefined) {
+        retryDelay = event.retry
+      }
+      if (event.id !== undefined) {
+        resumable = event.id !== lastEventId
+        lastEventId = event.id
+      }
+      if (event.data !== undefined) {
+        yield JSON.parse(event.data)
+      }
+    }
+
+    await new Promise(resolve => setTimeout(resolve, retryDelay))
+    response = await resend({ 'Last-Event-ID': lastEventId })
+  }
+}
+
+/**
+ * Split a `text/event-stream` into events.
+ *
+ * @see https://html.spec.whatwg.org/multipage/server-sent-events.html#event-stream-interpretation
+ */
+function parseEvents(): Transformer<string, ServerSentEvent> {
+  let buffer = ''
+  let event: ServerSentEvent = {}
+  let data: string[] = []
+
+  const parseLine = (
+    line: string,
+    controller: TransformStreamDefaultController<ServerSentEvent>
+  ) => {
+    // An empty line dispatches the event.
+    if (line === '') {
+      if (data.length) {
+        event.data = data.join('\n')
+      }
+      if (Object.keys(event).length) {
+        controller.enqueue(event)
+      }
+      event = {}
+      data = []
+      return
+    }
+    const colonIndex = line.indexOf(':')
+    if (colonIndex === 0) {
+      return // Ignore comments.
+    }
+    const field = colonIndex === -1 ? line : line.slice(0, colonIndex)
+    let value = colonIndex === -1 ? '' : line.slice(colonIndex + 1)
+    if (value[0] === ' ') {
+      value = value.slice(1)
+    }
+    if (field === 'data') {
+      data.push(value)
+    } else if (field === 'id') {
+      if (!value.includes('\0')) {
+        event.id = value
+      }
+    } else if (field === 'retry') {
+      if (/^\d+$/.test(value)) {
+        event.retry = Number(value)
+      }
+    }
+  }
+
+  return {
+    transform(chunk, controller) {
+      buffer += chunk
+
+      // A trailing carriage return might be followed by a line feed in the
+      // next chunk, so it's left in the buffer.
+      const lines = buffer.split(/\r\n|\r(?!$)|\n/)
+      buffer = lines.pop()!
+      for (const line of lines) {
+        parseLine(line, controller)
+      }
+    },
+    flush(controller) {
+      if (buffer) {
+        parseLine(buffer.replace(/\r$/, ''), controller)
+      }
+    },
+  }
+}
@@ -1,4 +1,5 @@
 export * from './client.js'
 export * from './error.js'
 export * from './factory.js'
+export * from './mock.js'
 export * from './types.js'
@@ -0,0 +1,246 @@
+import { isString } from 'radashi'
+import type { Client } from './client.js'
+import { kClientProperty, kRouteProperty } from './symbols.js'
+import type {
+  AnyRoute,
+  ClientOptions,
+  ClientRoutes,
+  ErrorMode,
+  ResponseStream,
+  Route,
+  RouteFunctions,
+  ws,
+} from './types.js'
+import { mergeOptions } from './utils/mergeOptions.js'
+import { createResponseStream } from './utils/responseStream.js'
+import { revive } from './utils/revive.js'
+
+type Promisable<T> = T | Promise<T>
+
+/**
+ * A function for each route of a mock client. These receive the same
+ * arguments as the route function. Streaming routes may return any
+ * iterable of their records.
+ */
+export type MockHandlers<API extends ClientRoutes> = {
+  [K in keyof API]?: API[K] extends Record<string, AnyRoute>
+    ? MockHandlers<API[K]>
+    : API[K] extends ws.Topic
+      ? ws.TopicFunction<API[K]>
+      : MockHandler<RouteFunctionOf<API, K>>
+}
+
+type RouteFunctionOf<API extends ClientRoutes, K> =
+  RouteFunctions<API, 'reject'> extends infer TFunctions
+    ? TFunctions[K & keyof TFunctions]
+    : never
+
+type MockHandler<TFunction> = TFunction extends (
+  ...args: infer TArgs
+) => infer TResult
+  ? (...args: TArgs) => MockResult<TResult>
+  : never
+
+type MockResult<TResult> =
+  TResult extends ResponseStream<infer TRecord>
+    ? Iterable<TRecord> | AsyncIterable<TRecord>
+    : TResult extends ReadableStream<infer TRecord>
+      ? Iterable<TRecord> | AsyncIterable<TRecord>
+      : Promisable<Awaited<TResult>>
+
+/**
+ * The default results of a mock client, like the module written to the
+ * generator's `mocksOutFile`. Values are JSON, so they're revived like a
+ * response would be. Streaming routes use an array of their records.
+ */
+export type MockValues = { [key: string]: unknown }
+
+export type MockClientOptions<TErrorMode extends ErrorMode = ErrorMode> =
+  ClientOptions<TErrorMode> & {
+    /**
+     * Results for routes without a handler. Routes with neither a handler
+     * nor a value resolve with `undefined` (or an empty stream).
+     */
+    values?: MockValues
+  }
+
+/**
+ * Create a client whose route functions never send a request. Instead,
+ * each route calls its handler or resolves with its mock value. This is
+ * useful for testing and prototyping UI code without a server.
+ *
+ * Only the `errorMode` and `prefixUrl` options affect a mock client.
+ *
+ * ```ts
+ * import routes from './client/generated/api.js'
+ * import mocks from './client/generated/mocks.js'
+ *
+ * const client = defineMockClient(
+ *   routes,
+ *   { getUser: ({ id }) => ({ id, name: 'Alice' }) },
+ *   { values: mocks }
+ * )
+ * ```
+ */
+export function defineMockClient<
+  API extends ClientRoutes,
+  TErrorMode extends ErrorMode = 'reject',
+>(
+  routes: API,
+  handlers: MockHandlers<API> = {},
+  { values = {}, ...options }: MockClientOptions<TErrorMode> = {}
+): Client<API, TErrorMode> {
+  const prototype: Client = {
+    options: mergeOptions(undefined, options),
+    fetch() {
+      return Promise.reject(new Error('Mock clients cannot send requests'))
+    },
+    on() {
+      return () => {}
+    },
+    extend(options) {
+      return defineMockClient(routes, handlers, {
+        ...prototype.options,
+        ...options,
+        values,
+      })
+    },
+    invalidate() {},
+  } as Client
+
+  return createMockProxy(routes, handlers, values, prototype)
+}
+
+function createMockProxy(
+  routes: ClientRoutes,
+  handlers: Record<string, any>,
+  values: MockValues,
+  client: Client,
+  keyPrefix = ''
+): any {
+  const propertyCache = new Map<keyof any, any>()
+
+  return new Proxy(client, {
+    get(client, key: string) {
+      const route = routes[key]
+      if (route) {
+        let value = propertyCache.get(key)
+        if (!value) {
+          value = isRouteLike(route)
+            ? createMockFunction(
+                route,
+                handlers[key],
+                values[key],
+                client,
+                keyPrefix + key
+              )
+            : createMockProxy(
+                route as ClientRoutes,
+                handlers[key] ?? {},
+                (values[key] ?? {}) as MockValues,
+                client,
+                keyPrefix + key + '.'
+              )
+
+          propertyCache.set(key, value)
+        }
+        return value
+      }
+      if (Object.hasOwn(client, key)) {
+        return client[key as keyof Client]
+      }
+    },
+  })
+}
+
+function isRouteLike(route: ClientRoutes[string]): route is AnyRoute {
+  return 'method' in route || 'protocol' in route
+}
+
+function createMockFunction(
+  route: AnyRoute,
+  handler: ((...args: any[]) => any) | undefined,
+  value: unknown,
+  client: Client,
+  routeName: string
+) {
+  if ('topic' in route) {
+    return handler ?? (() => () => {})
+  }
+
+  const format =
+    'method' in route
+      ? isString(route.format)
+        ? route.format
+        : route.format.name
+      : route.pattern
+
+  // Use this strange assignment syntax to ensure the function's name
+  // matches the route name.
+  const { [routeName]: routeFunction } = {
+    [routeName](...args: any[]) {
+      if (format === 'json-seq' || format === 'sse') {
+        return createResponseStream(
+          toAsyncIterable(handler ? handler(...args) : (value ?? [])),
+          route as Route,
+          () => {
+            throw new Error('Mock clients cannot request another page')
+          }
+        )
+      }
+      if (format === 's') {
+        return toReadableStream(handler ? handler(...args) : (value ?? []))
+      }
+
+      const result = (async () => {
+        if (handler) {
+          return handler(...args)
+        }
+        if (format === 'response') {
+          return new Response(null)
+        }
+        // Values are copied, so a caller can't modify them for later calls.
+        const result = structuredClone(value)
+        return 'revive' in route && route.revive
+          ? revive(result, route.revive)
+          : result
+      })()
+
+      if (client.options.errorMode === 'return' && format !== 'n') {
+        return result.then(
+          result => [undefined, result],
+          error => [error, undefined]
+        )
+      }
+      return format === 'n' ? result.then(() => {}) : result
+    },
+  }
+
+  if ('method' in route) {
+    Object.defineProperty(routeFunction, kRouteProperty, { value: route })
+    Object.defineProperty(routeFunction, kClientProperty, { value: client })
+  }
+
+  return routeFunction
+}
+
+async function* toAsyncIterable<T>(records: Iterable<T> | AsyncIterable<T>) {
+  yield* records
+}
+
+function toReadableStream<T>(records: Iterable<T> | AsyncIterable<T>) {
+  const iterator = toAsyncIterable(records)
+  return new ReadableStream<T>({
+    async pull(controller) {
+      const { done, value } = await iterator.next()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    async cancel() {
+      await iterator.return(undefined)
+    },
+  })
+}
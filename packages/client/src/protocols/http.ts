@@ -6,11 +6,14 @@ import parseJsonResponse from '../formats/json.js'
 import { kClientProperty, kRouteProperty } from '../symbols.js'
 import {
   FetchOptions,
+  HeadersInit,
   RequestOptions,
   ResponseParser,
   Route,
   RouteProtocol,
 } from '../types.js'
+import { mergeHeaders } from '../utils/mergeHeaders.js'
+import { getResultCacheKey, loadCachedResult } from '../utils/resultCache.js'
 
 // The default protocol
 export default {
@@ -44,6 +47,9 @@ export default {
           query: undefined,
           json: undefined,
           body: undefined,
+          // Other formats need the whole response, so they're never batched.
+          batch:
+            route.format === 'json' && (options?.batch ?? client.options.batch),
         }
 
         if (params) {
@@ -66,22 +72,38 @@ export default {
           }
         }
 
-        const promisedResponse = client.fetch(
-          buildPath(route.path, params ?? {}),
-          request
-        )
+        const path = buildPath(route.path, params ?? {})
+        const resend = (headers: HeadersInit) =>
+          client.fetch(path, {
+            ...request,
+            headers: mergeHeaders(request.headers, headers),
+          })
+        const sendRequest = () =>
+          parseResponse(client.fetch(path, request), client, route, resend)
 
-        if (client.options.errorMode === 'return') {
-          const result = parseResponse(promisedResponse, client)
-          if (isPromise(result)) {
-            return result.then(
-              result => [undefined, result],
-              error => [error, undefined]
-            )
-          }
-          return result
+        // Calls with their own headers may get a different result, so
+        // they're never cached.
+        const { resultCache } = client.options
+        const result =
+          resultCache &&
+          route.method === 'GET' &&
+          route.format === 'json' &&
+          !options?.headers
+            ? loadCachedResult(
+                resultCache,
+                getResultCacheKey(routeName, getRequestPath(route, params)),
+                // JSON results are always parsed asynchronously.
+                sendRequest as () => Promise<unknown>
+              )
+            : sendRequest()
+
+        if (client.options.errorMode === 'return' && isPromise(result)) {
+          return result.then(
+            result => [undefined, result],
+            error => [error, undefined]
+          )
         }
-        return parseResponse(promisedResponse, client)
+        return result
       },
     }
 
@@ -92,6 +114,20 @@ export default {
   },
 } satisfies RouteProtocol<Route>
 
+/**
+ * Get the path of a bodyless route's request, including its search string.
+ */
+export function getRequestPath(
+  route: Route,
+  params: Record<string, any> | undefined
+) {
+  const path = buildPath(route.path, params ?? {})
+  const query =
+    params && jsonQS.encode(params, { skippedKeys: route.pathParams })
+
+  return query ? path + '?' + query : path
+}
+
 const passThrough = <T>(value: T) => value
 
 function getResponseParser(format: Route['format']): ResponseParser {
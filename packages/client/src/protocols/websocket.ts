@@ -1,7 +1,10 @@
-import { noop } from 'radashi'
+import { noop, sleep } from 'radashi'
 import type { Client } from '../client.js'
-import { NetworkError } from '../error.js'
+import { isProblemDetails, NetworkError, ProblemError } from '../error.js'
 import type { ClientOptions, HeadersInit, RouteProtocol, ws } from '../types.js'
+import { getAuthGeneration, getAuthorization } from '../utils/auth.js'
+import { emitConnectionEvent } from '../utils/connectionEvents.js'
+import { mergeHeaders } from '../utils/mergeHeaders.js'
 import { withRetry } from '../utils/retry.js'
 import { resolvePrefixUrl, urlWithPathname } from '../utils/url.js'
 
@@ -14,10 +17,14 @@ function getWebSocketURL(options: ClientOptions) {
 export default {
   name: 'ws' as const,
   createFunction(route, client, method) {
+    if ('topic' in route) {
+      return (listener: (data: any) => void) =>
+        listenToTopic(client, route.topic, listener)
+    }
     if (route.pattern === 'n') {
       return (...params: any[]) =>
-        withRetry(client.options.retry, () => {
-          return sendNotification(getConnection(client), method, params)
+        withRetry(client.options.retry, async () => {
+          return sendNotification(await getConnection(client), method, params)
         })
     }
     return (...params: any[]) => {
@@ -41,11 +48,7 @@ export default {
             reject = error => wrappedReject([error, undefined])
           }
 
-          const onMessage: OnMessageFactory = (id, parse, done) => message => {
-            const response = parse(message)
-            if (response.id !== id) {
-              return
-            }
+          const onResponse: OnResponseFactory = done => response => {
             if ('error' in response) {
               reject(makeRequestError(response))
             } else {
@@ -55,7 +58,7 @@ export default {
           }
 
           withRetry(client.options.retry, () => {
-            return sendRequest(client, method, params, onMessage, signal)
+            return sendRequest(client, method, params, onResponse, signal)
           }).catch(reject)
         })
       }
@@ -63,11 +66,7 @@ export default {
       const stream = new TransformStream()
       const writer = stream.writable.getWriter()
 
-      const onMessage: OnMessageFactory = (id, parse, done) => message => {
-        const response = parse(message)
-        if (response.id !== id) {
-          return
-        }
+      const onResponse: OnResponseFactory = done => response => {
         if ('close' in response) {
           writer.close()
           done()
@@ -83,7 +82,7 @@ export default {
           client,
           method,
           params,
-          onMessage,
+          onResponse,
           signal,
           stream.readable
         )
@@ -94,7 +93,7 @@ export default {
       return stream.readable
     }
   },
-} satisfies RouteProtocol<ws.Route>
+} satisfies RouteProtocol<ws.Route | ws.Topic>
 
 function isRequestOptions(obj: any): obj is ws.RequestOptions {
   if (obj && Object.getPrototypeOf(obj) === Object.prototype) {
@@ -108,11 +107,61 @@ function isRequestOptions(obj: any): obj is ws.RequestOptions {
   return false
 }
 
+type TopicListeners = Map<string, Set<(data: any) => void>>
+
+const topicListeners = new WeakMap<Client, TopicListeners>()
+
+function getTopicListeners(client: Client) {
+  let listeners = topicListeners.get(client)
+  if (!listeners) {
+    listeners = new Map()
+    topicListeners.set(client, listeners)
+  }
+  return listeners
+}
+
+/**
+ * Topic listeners belong to the client, so they survive reconnects. They
+ * don't open a connection, since the server only publishes to clients it
+ * has subscribed (usually from a route called by the client).
+ */
+function listenToTopic(
+  client: Client,
+  topic: string,
+  listener: (data: any) => void
+) {
+  const topics = getTopicListeners(client)
+
+  let listeners = topics.get(topic)
+  if (!listeners) {
+    listeners = new Set()
+    topics.set(topic, listeners)
+  }
+  listeners.add(listener)
+
+  return () => {
+    if (listeners.delete(listener) && listeners.size === 0) {
+      topics.delete(topic)
+      if (client.ws && client.ws.readyState === client.ws.OPEN) {
+        setIdleTimeout(client.ws)
+      }
+    }
+  }
+}
+
 type ConnectionState = {
   options: ClientOptions
+  /** Listeners for data published to a topic. */
+  topics: TopicListeners
+  /** The auth generation when the connection was opened. */
+  authGeneration: number
+  /** When true, the connection is closed once its requests are done. */
+  retired: boolean
+  /** When true, the connection was lost and is being reopened. */
+  reconnecting: boolean
   nextId: number
   activeRequests: number
-  parsedMessages: WeakMap<MessageEvent, Response>
+  parsedMessages: WeakMap<MessageEvent, Message>
   pingTimeout: any
   pong: () => void
   idleTimeout: any
@@ -120,35 +169,65 @@ type ConnectionState = {
 }
 
 const connectionStates = new WeakMap<WebSocket, ConnectionState>()
+const pendingConnections = new WeakMap<Client, Promise<WebSocket>>()
 
-function getConnection(client: Client) {
+function getConnection(client: Client): Promise<WebSocket> {
   const { ws } = client
-  return !ws || ws.readyState > WebSocket.OPEN ? connect(client) : ws
+  if (ws && ws.readyState <= ws.OPEN) {
+    const state = connectionStates.get(ws)!
+    const { auth } = client.options
+    if (!auth || state.authGeneration === getAuthGeneration(auth)) {
+      return Promise.resolve(ws)
+    }
+    // The token was refreshed since the connection was opened.
+    retireConnection(ws, state)
+    client.ws = undefined
+  }
+  let pending = pendingConnections.get(client)
+  if (!pending) {
+    pending = connect(client).finally(() => {
+      pendingConnections.delete(client)
+    })
+    pendingConnections.set(client, pending)
+  }
+  return pending
+}
+
+function retireConnection(ws: WebSocket, state: ConnectionState) {
+  state.retired = true
+  if (state.activeRequests === 0) {
+    ws.close()
+  }
 }
 
-declare const WebSocket: {
-  new (
-    url: string,
-    options?: {
-      /** Not available in browsers. */
-      headers?: HeadersInit | undefined
+// The ready state constants are read from each socket, since the
+// `WebSocket` option may replace the global constructor.
+declare const WebSocket: ws.WebSocketConstructor
+
+async function connect(client: Client, reconnectAttempt = false) {
+  const { auth } = client.options
+  const authGeneration = auth ? getAuthGeneration(auth) : 0
+
+  // Browsers don't support custom headers for WebSocket connections.
+  let headers: HeadersInit | undefined
+  if (typeof document === 'undefined') {
+    headers = client.options.headers
+    if (auth) {
+      headers = mergeHeaders(headers, {
+        Authorization: await getAuthorization(auth),
+      })
     }
-  ): globalThis.WebSocket
+  }
 
-  CONNECTING: 0
-  OPEN: 1
-  CLOSING: 2
-  CLOSED: 3
-}
+  emitConnectionEvent(client, 'connecting')
 
-function connect(client: Client) {
-  const ws = new WebSocket(
+  const { WebSocket: WebSocketImpl = WebSocket } = client.options
+  const ws = new WebSocketImpl(
     getWebSocketURL(client.options),
-    typeof document === 'undefined'
-      ? { headers: client.options.headers }
-      : undefined
+    headers ? { headers } : undefined
   )
   const callbacks: ((error?: Error) => void)[] = []
+  let opened = false
   const onError = () => {
     // HACK: Force the client to reconnect, because the readyState might
     // still be `CONNECTING` even though the `error` event has fired.
@@ -160,12 +239,62 @@ function connect(client: Client) {
   }
   ws.addEventListener('error', onError)
   ws.addEventListener('open', () => {
+    opened = true
     ws.removeEventListener('error', onError)
     callbacks.forEach(callback => callback())
     callbacks.length = 0
+    emitConnectionEvent(client, 'open')
   })
-  connectionStates.set(ws, {
+  ws.addEventListener('close', event => {
+    if (state.retired) {
+      return // Replaced by a connection with a refreshed token.
+    }
+    if (reconnectAttempt && !opened) {
+      return // The reconnect loop decides what happens next.
+    }
+    const { wsReconnect } = client.options
+    if (wsReconnect && opened && !event.wasClean) {
+      state.reconnecting = true
+      const pending = reconnect(
+        client,
+        wsReconnect === true ? {} : wsReconnect
+      ).finally(() => {
+        pendingConnections.delete(client)
+      })
+      pending.catch(error => {
+        emitConnectionEvent(client, 'closed', error)
+      })
+      pendingConnections.set(client, pending)
+    } else {
+      emitConnectionEvent(
+        client,
+        'closed',
+        event.wasClean
+          ? undefined
+          : new NetworkError(
+              opened
+                ? 'WebSocket lost connection'
+                : 'WebSocket failed to connect'
+            )
+      )
+    }
+  })
+  ws.addEventListener('message', message => {
+    const parsed = parseMessage(ws, message)
+    if ('topic' in parsed) {
+      state.topics.get(parsed.topic)?.forEach(listener => {
+        listener(parsed.data)
+      })
+    } else if ('method' in parsed) {
+      handleServerCall(ws, state.options, parsed)
+    }
+  })
+  const state: ConnectionState = {
     options: client.options,
+    topics: getTopicListeners(client),
+    authGeneration,
+    retired: false,
+    reconnecting: false,
     nextId: 1,
     activeRequests: 0,
     parsedMessages: new WeakMap(),
@@ -173,18 +302,51 @@ function connect(client: Client) {
     pong: noop,
     idleTimeout: null,
     onceConnected(callback) {
-      if (ws.readyState === WebSocket.OPEN) {
+      if (ws.readyState === ws.OPEN) {
         callback()
       } else {
         callbacks.push(callback)
       }
     },
-  })
+  }
+  connectionStates.set(ws, state)
   return (client.ws = ws)
 }
 
+/**
+ * Reopen a lost connection, waiting longer after each failed attempt.
+ * Resolves once a connection is open.
+ */
+async function reconnect(client: Client, options: ws.ReconnectOptions) {
+  const {
+    limit = Number.POSITIVE_INFINITY,
+    backoffLimit = 30_000,
+    delay = defaultReconnectDelay,
+  } = options
+
+  for (let attemptCount = 1; ; attemptCount++) {
+    const retryDelay = Math.min(backoffLimit, delay(attemptCount))
+    emitConnectionEvent(client, 'reconnecting', attemptCount, retryDelay)
+    await sleep(retryDelay)
+
+    const ws = await connect(client, true)
+    const error = await new Promise<Error | undefined>(resolve => {
+      onceConnected(ws, resolve)
+    })
+    if (!error) {
+      return ws
+    }
+    if (attemptCount >= limit) {
+      throw error
+    }
+  }
+}
+
+const defaultReconnectDelay = (attemptCount: number) =>
+  0.3 * 2 ** (attemptCount - 1) * 1000
+
 function onceConnected(ws: WebSocket, callback: (error?: Error) => void) {
-  if (ws.readyState === WebSocket.OPEN) {
+  if (ws.readyState === ws.OPEN) {
     callback()
   } else {
     connectionStates.get(ws)!.onceConnected(callback)
@@ -215,23 +377,21 @@ function sendNotification(ws: WebSocket, method: string, params: any[]) {
   })
 }
 
-type OnMessageFactory = (
-  id: number,
-  parse: (message: MessageEvent) => Response,
-  done: () => void
-) => (message: MessageEvent) => void
+type OnResponseFactory = (done: () => void) => (response: Response) => void
 
-function sendRequest(
+async function sendRequest(
   client: Client,
   method: string,
   params: any[],
-  getListener: OnMessageFactory,
+  getListener: OnResponseFactory,
   signal?: AbortSignal,
   readable?: ReadableStream
 ) {
   signal?.throwIfAborted()
+  const ws = await getConnection(client)
+  signal?.throwIfAborted()
+
   return new Promise<void>((resolve, reject) => {
-    const ws = getConnection(client)
     const state = connectionStates.get(ws)!
 
     // This flag is only used when the websocket is still connecting. Once
@@ -244,12 +404,16 @@ function sendRequest(
       signal?.removeEventListener('abort', onAbort)
 
       // This logic is only needed if the websocket hasn't lost connection.
-      if (ws.readyState === WebSocket.OPEN) {
+      if (ws.readyState === ws.OPEN) {
         ws.removeEventListener('message', onMessage)
         ws.removeEventListener('close', onClose)
 
         if (--state.activeRequests === 0) {
-          setIdleTimeout(ws, state)
+          if (state.retired) {
+            ws.close()
+          } else {
+            setIdleTimeout(ws, state)
+          }
         }
       }
     }
@@ -263,7 +427,7 @@ function sendRequest(
           reject(signal.reason)
 
           // Attempt to notify the server that the request was cancelled.
-          if (ws.readyState === WebSocket.OPEN) {
+          if (ws.readyState === ws.OPEN) {
             sendMessage(ws, '.cancel', [id])
           }
         }
@@ -278,7 +442,7 @@ function sendRequest(
           resolve()
 
           // Attempt to notify the server that the request was cancelled.
-          if (ws.readyState === WebSocket.OPEN) {
+          if (ws.readyState === ws.OPEN) {
             sendMessage(ws, '.cancel', [id])
           }
         }
@@ -295,31 +459,41 @@ function sendRequest(
     const id = state.nextId++
     state.activeRequests++
 
-    const onMessage = getListener(
-      id,
-      message => {
-        let response = state.parsedMessages.get(message)
-        if (!response) {
-          response = JSON.parse(message.data) as Response
-          state.parsedMessages.set(message, response)
-
-          // When a new message is received, clear the pong timeout and set
-          // a new ping timeout.
-          state.pong()
-          setPingTimeout(ws, state)
-        }
-        return response
-      },
-      () => {
-        onRequestEnded()
-        resolve()
+    const onResponse = getListener(() => {
+      onRequestEnded()
+      resolve()
+    })
+
+    const onMessage = (message: MessageEvent) => {
+      const parsed = parseMessage(ws, message, state)
+      // Server calls have their own IDs, which may equal this request's ID,
+      // so only messages without a method or topic are responses.
+      if (!('method' in parsed) && !('topic' in parsed) && parsed.id === id) {
+        onResponse(parsed)
       }
-    )
+    }
 
     const onClose = (event: CloseEvent) => {
       onRequestEnded()
       if (event.wasClean) {
         resolve()
+      } else if (readable && state.reconnecting) {
+        // Resubscribe once the connection is reopened, unless the stream
+        // was cancelled in the meantime.
+        getConnection(client)
+          .then(() => {
+            if (!cancelled) {
+              return sendRequest(
+                client,
+                method,
+                params,
+                getListener,
+                signal,
+                readable
+              )
+            }
+          })
+          .then(resolve, reject)
       } else {
         reject(new NetworkError('WebSocket lost connection'))
       }
@@ -342,6 +516,73 @@ function sendRequest(
   })
 }
 
+function parseMessage(
+  ws: WebSocket,
+  message: MessageEvent,
+  state = connectionStates.get(ws)!
+) {
+  let parsed = state.parsedMessages.get(message)
+  if (!parsed) {
+    parsed = JSON.parse(message.data) as Message
+    state.parsedMessages.set(message, parsed)
+
+    // When a new message is received, clear the pong timeout and set
+    // a new ping timeout.
+    state.pong()
+    setPingTimeout(ws, state)
+  }
+  return parsed
+}
+
+/**
+ * Call a handler from the `wsHandlers` option on behalf of the server. If
+ * the server expects a reply, the message has an `id`.
+ */
+async function handleServerCall(
+  ws: WebSocket,
+  options: ClientOptions,
+  { method, params, id }: ServerCall
+) {
+  const { wsHandlers } = options
+  if (!wsHandlers || !Object.hasOwn(wsHandlers, method)) {
+    if (id === undefined) {
+      return console.error(
+        `Received server notification for unknown client handler: ${method}`
+      )
+    }
+    return sendReply(ws, {
+      id,
+      error: { code: 404, message: 'Not Found', data: undefined },
+    })
+  }
+
+  let result: unknown
+  try {
+    result = await wsHandlers[method](...params)
+  } catch (error: any) {
+    if (id === undefined) {
+      return console.error(error)
+    }
+    return sendReply(ws, {
+      id,
+      error: {
+        code: 500,
+        message: error?.message ?? String(error),
+        data: undefined,
+      },
+    })
+  }
+  if (id !== undefined) {
+    sendReply(ws, { id, result })
+  }
+}
+
+function sendReply(ws: WebSocket, reply: Response) {
+  if (ws.readyState === ws.OPEN) {
+    ws.send(JSON.stringify(reply))
+  }
+}
+
 function setPingTimeout(ws: WebSocket, state = connectionStates.get(ws)!) {
   const { wsPingInterval = 20, wsPongTimeout } = state.options
   if (wsPingInterval > 0) {
@@ -367,7 +608,12 @@ function setPingTimeout(ws: WebSocket, state = connectionStates.get(ws)!) {
 
 function setIdleTimeout(ws: WebSocket, state = connectionStates.get(ws)!) {
   const { wsIdleTimeout = 0 } = state.options
-  if (wsIdleTimeout > 0 && state.activeRequests === 0) {
+  // The connection is kept open while a topic has listeners.
+  if (
+    wsIdleTimeout > 0 &&
+    state.activeRequests === 0 &&
+    state.topics.size === 0
+  ) {
     clearTimeout(state.idleTimeout)
     state.idleTimeout = setTimeout(() => {
       ws.close()
@@ -377,6 +623,12 @@ function setIdleTimeout(ws: WebSocket, state = connectionStates.get(ws)!) {
 
 type Response = { id: number; result: any } | ErrorResponse
 
+type TopicMessage = { topic: string; data: any }
+
+type ServerCall = { method: string; params: any[]; id?: number }
+
+type Message = Response | TopicMessage | ServerCall
+
 type ErrorResponse = {
   id: number
   error: {
@@ -386,7 +638,12 @@ type ErrorResponse = {
   }
 }
 
-function makeRequestError(response: ErrorResponse): ws.RequestError {
+function makeRequestError(
+  response: ErrorResponse
+): ws.RequestError | ProblemError {
+  if (isProblemDetails(response.error.data)) {
+    return new ProblemError(response.error.data)
+  }
   const error = Object.assign(new Error(), response.error)
   error.name = 'ws.RequestError'
   return error as any
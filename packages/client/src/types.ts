@@ -1,7 +1,7 @@
 import type { RouteMethod } from '@alien-rpc/route'
 import type { Any, Simplify } from 'radashi'
 import type { Client } from './client.js'
-import type { HTTPError } from './error.js'
+import type { HTTPError, ProblemError } from './error.js'
 import type { RetryOptions } from './utils/retry.js'
 
 export type { RetryOptions }
@@ -13,7 +13,13 @@ export type { RetryOptions }
  */
 export type ResponseParser<TResult = unknown> = (
   promisedResponse: Promise<Response>,
-  client: Client
+  client: Client,
+  route: Route,
+  /**
+   * Send the request again with additional headers. Used to resume a
+   * stream after the connection was lost.
+   */
+  resend: (headers: HeadersInit) => Promise<Response>
 ) => TResult
 
 export type ResponseFormat<TResult = unknown> = {
@@ -21,11 +27,11 @@ export type ResponseFormat<TResult = unknown> = {
   parse: ResponseParser<TResult>
 }
 
-export type AnyRoute = Route | ws.Route
+export type AnyRoute = Route | ws.Route | ws.Topic
 
 type AnyFn = (...args: any) => any
 
-export type Route<T extends AnyFn = AnyFn> = {
+export type Route<T extends AnyFn = AnyFn, TError = Error> = {
   method: RouteMethod
   path: string
   pathParams?: string[]
@@ -38,12 +44,33 @@ export type Route<T extends AnyFn = AnyFn> = {
    * Equals 1 if the route has no search parameters or request body.
    */
   arity: 1 | 2
+  /**
+   * Where `Date` and `bigint` values are found in the response. Only
+   * exists if the generator's `reviveResults` option is enabled.
+   */
+  revive?: Reviver
   /**
    * Type information for the route. Doesn't exist at runtime.
    */
   __type: T
+  /**
+   * The errors of the route, when its handler declares which error
+   * responses it may throw. Doesn't exist at runtime.
+   */
+  __error: TError
 }
 
+/**
+ * Describes where `Date` and `bigint` values exist in a JSON value.
+ *
+ * - `"d"`: An ISO date string, revived as a `Date`.
+ * - `"b"`: A bigint string, revived as a `bigint`.
+ * - An array with one reviver, applied to every element.
+ * - An object with a reviver for some of its properties. The `*` key
+ *   applies to all properties not explicitly listed.
+ */
+export type Reviver = 'd' | 'b' | [Reviver] | { [key: string]: Reviver }
+
 export declare namespace Route {
   /**
    * Shorthand for a route with no path parameters or search parameters.
@@ -114,10 +141,83 @@ export declare namespace ws {
           : TResult
       : never
 
+  /**
+   * A topic that the server publishes data to. Only clients subscribed by
+   * the server (with `ctx.subscribe`) receive its data.
+   */
+  export type Topic<TData = unknown> = {
+    protocol: RouteProtocol<Topic>
+    topic: string
+    // Doesn't exist at runtime.
+    data: TData
+  }
+
+  /**
+   * Listen for data published to a topic. Returns a function that removes
+   * the listener.
+   */
+  export type TopicFunction<TRoute> =
+    TRoute extends ws.Topic<infer TData>
+      ? (listener: (data: TData) => void) => () => void
+      : never
+
   export type RequestOptions = {
     signal?: AbortSignal | undefined
   }
 
+  export type WebSocketConstructor = new (
+    url: string,
+    options?: {
+      /** Not available in browsers. */
+      headers?: HeadersInit | undefined
+    }
+  ) => globalThis.WebSocket
+
+  export type ClientHandlers = {
+    [method: string]: (...params: any[]) => unknown
+  }
+
+  export type ReconnectOptions = {
+    /**
+     * The number of times to try reconnecting before giving up.
+     *
+     * @default Infinity
+     */
+    limit?: number
+    /**
+     * The upper limit of the delay between attempts in milliseconds.
+     *
+     * @default 30000
+     */
+    backoffLimit?: number
+    /**
+     * A function to calculate the delay before each attempt given
+     * `attemptCount` (starts from 1).
+     *
+     * @default attemptCount => 0.3 * (2 ** (attemptCount - 1)) * 1000
+     */
+    delay?: (attemptCount: number) => number
+  }
+
+  /**
+   * Listeners for changes to the WebSocket connection, added with
+   * `client.on()`.
+   */
+  export type ConnectionEvents = {
+    /** A connection is being opened. */
+    connecting: () => void
+    /** The connection was opened. */
+    open: () => void
+    /** The connection was lost and will be reopened after `delay`. */
+    reconnecting: (attemptCount: number, delay: number) => void
+    /**
+     * The connection was closed and won't be reopened until it's needed.
+     * The error is defined if the connection was lost or couldn't be
+     * opened.
+     */
+    closed: (error?: Error) => void
+  }
+
   export interface RequestError extends globalThis.Error {
     name: 'ws.RequestError'
     code: number
@@ -158,6 +258,7 @@ export interface ResolvedClientOptions<TErrorMode extends ErrorMode = ErrorMode>
   extends ClientOptions<TErrorMode> {
   errorMode: TErrorMode
   headers: Headers
+  resultCache: Required<ResultCacheOptions> | undefined
 }
 
 // Allow undefined header values.
@@ -211,6 +312,19 @@ export interface RequestOptions
    * @default 60
    */
   timeout?: number | undefined
+
+  /**
+   * Send the request together with other requests made in the same tick,
+   * through the server's batching endpoint (see the `batch` option of
+   * `compileRoutes`). Only routes with a JSON result can be batched, and
+   * requests with their own headers are always sent on their own.
+   *
+   * When used as a client option, every route call is batched unless it
+   * sets this to `false`.
+   *
+   * @default false
+   */
+  batch?: boolean | undefined
 }
 
 export interface ClientOptions<TErrorMode extends ErrorMode = ErrorMode>
@@ -226,6 +340,16 @@ export interface ClientOptions<TErrorMode extends ErrorMode = ErrorMode>
    * for testing purposes, mostly.
    */
   fetch?: (request: Request) => Promise<Response>
+  /**
+   * Override the `globalThis.WebSocket` constructor that connects to
+   * WebSocket routes. Useful for testing purposes, mostly.
+   */
+  WebSocket?: ws.WebSocketConstructor | undefined
+  /**
+   * Send a bearer token with every request, and refresh it when the server
+   * responds with a 401 status.
+   */
+  auth?: AuthOptions | undefined
   /**
    * Control how errors are handled.
    *
@@ -236,7 +360,8 @@ export interface ClientOptions<TErrorMode extends ErrorMode = ErrorMode>
    */
   errorMode?: TErrorMode | undefined
   /**
-   * Called with the response and its request.
+   * Called before each request, after each response, and before an
+   * `HTTPError` is thrown.
    */
   hooks?: RequestHooks | readonly RequestHooks[] | undefined
   /**
@@ -264,11 +389,73 @@ export interface ClientOptions<TErrorMode extends ErrorMode = ErrorMode>
    * @default 0 (disabled)
    */
   wsIdleTimeout?: number | undefined
+  /**
+   * Functions that the server can call over the WebSocket connection, with
+   * `ctx.client` in a WebSocket route. These should be exported by the
+   * module that the generator's `clientHandlersFile` option points to.
+   */
+  wsHandlers?: ws.ClientHandlers | undefined
+  /**
+   * Reopen the WebSocket connection if it's lost, with an exponential
+   * backoff between attempts. Active subscriptions are sent again (with
+   * their original arguments) once the connection is reopened.
+   *
+   * Pass `true` to use the default options.
+   *
+   * @default false
+   */
+  wsReconnect?: boolean | ws.ReconnectOptions | undefined
+  /**
+   * The maximum number of calls in a batch request. Any calls beyond this
+   * are sent in another batch. This should match the `batchLimit` option
+   * of the server.
+   *
+   * @default 20
+   */
+  batchLimit?: number | undefined
+  /**
+   * Cache the results of `GET` routes with a JSON result, so identical
+   * calls can skip the request. Use `client.invalidate()` to remove
+   * results that are out of date (e.g. after a mutation).
+   *
+   * Pass `true` to use the default options. Extended clients share the
+   * cache of their parent, unless they set this option or their own
+   * `headers` or `auth` (in which case they get an empty `Map`).
+   *
+   * @default false
+   */
+  resultCache?: boolean | ResultCacheOptions | undefined
 }
 
 type Promisable<T> = T | Promise<T>
 
-export type BeforeErrorHook = (error: HTTPError) => Promisable<HTTPError>
+export type AuthOptions = {
+  /**
+   * Return the current token, which is sent in the `Authorization` header
+   * as a bearer token. Called before every request attempt and whenever a
+   * WebSocket connection is opened.
+   */
+  getToken: () => Promisable<string | null | undefined>
+  /**
+   * Called when a request receives a 401 response. Once the returned
+   * promise resolves, the request is sent again (only once) with the token
+   * from `getToken`. Concurrent 401 responses share the same refresh.
+   *
+   * If this rejects, the 401 response is thrown as an `HTTPError`.
+   *
+   * Open WebSocket connections are replaced with a new connection (using
+   * the fresh token) once their active requests have finished.
+   */
+  refreshToken: () => Promise<void>
+}
+
+export type BeforeRequestHook = (args: {
+  request: Request
+}) => Promisable<Request | Response | void>
+
+export type BeforeErrorHook = (
+  error: HTTPError | ProblemError
+) => Promisable<HTTPError | ProblemError>
 
 export type AfterResponseHook = (args: {
   request: Request
@@ -277,8 +464,15 @@ export type AfterResponseHook = (args: {
 
 export type RequestHooks = {
   /**
-   * Called before a `HTTPError` is thrown. You can modify the error or
-   * return a new error.
+   * Called before a request is sent, including every retry attempt. You
+   * can modify the request or return a new request. If a response is
+   * returned, the request is never sent, and the response is handled as
+   * if it came from the server.
+   */
+  beforeRequest?: BeforeRequestHook | readonly BeforeRequestHook[] | undefined
+  /**
+   * Called before a `HTTPError` (or a `ProblemError`) is thrown. You can
+   * modify the error or return a new error.
    */
   beforeError?: BeforeErrorHook | readonly BeforeErrorHook[] | undefined
   /**
@@ -289,6 +483,7 @@ export type RequestHooks = {
 }
 
 export type RequestHookByName = {
+  beforeRequest: BeforeRequestHook
   beforeError: BeforeErrorHook
   afterResponse: AfterResponseHook
 }
@@ -370,11 +565,44 @@ export interface ResponseStream<T> extends AsyncIterableIterator<T> {
 
 export type ResponseStreamDirective = RoutePagination | { $error: object }
 
+/**
+ * Where the `resultCache` stores route results. Keys are made of the route
+ * name and the request path. A `Map` can be used.
+ */
 export interface RouteResultCache {
-  has: (path: string) => boolean
-  get: (path: string) => unknown | undefined
-  set: (path: string, response: unknown) => void
-  delete: (path: string) => void
+  has: (key: string) => boolean
+  get: (key: string) => CachedResult | undefined
+  set: (key: string, result: CachedResult) => void
+  delete: (key: string) => void
+  keys: () => Iterable<string>
+}
+
+export type CachedResult = {
+  value: unknown
+  /** When the result was received, in milliseconds since the epoch. */
+  time: number
+}
+
+export type ResultCacheOptions = {
+  /**
+   * How long (in seconds) a result is used without sending a request.
+   *
+   * @default 60
+   */
+  ttl?: number | undefined
+  /**
+   * How long (in seconds) a result can still be used after its `ttl` has
+   * passed. Until then, it's replaced by a request in the background.
+   *
+   * @default 0
+   */
+  staleWhileRevalidate?: number | undefined
+  /**
+   * Where results are stored.
+   *
+   * @default new Map()
+   */
+  store?: RouteResultCache | undefined
 }
 
 export type ErrorMode = 'return' | 'reject'
@@ -390,7 +618,9 @@ export type RouteFunctions<
           ? RouteFunctions<TRoute, TErrorMode>
           : TRoute extends Route
             ? RouteFunction<TRoute, TErrorMode>
-            : ws.RouteFunction<TRoute, TErrorMode>
+            : TRoute extends ws.Topic
+              ? ws.TopicFunction<TRoute>
+              : ws.RouteFunction<TRoute, TErrorMode>
         : never
     }
 
@@ -405,7 +635,8 @@ type RouteFunction<TRoute, TErrorMode extends ErrorMode> =
       pathParams: infer TPathParams,
       searchParams: infer TSearchParams,
       body: infer TBody
-    ) => infer TResult
+    ) => infer TResult,
+    infer TError
   >
     ? RequestParams<
         Objectify<TPathParams>,
@@ -422,25 +653,30 @@ type RouteFunction<TRoute, TErrorMode extends ErrorMode> =
       ? ([TParams] extends [Record<string, never>]
           ? (
               requestOptions?: RequestOptions
-            ) => RouteFunctionResult<TResult, TErrorMode>
+            ) => RouteFunctionResult<TResult, TErrorMode, TError>
           : Record<string, never> extends TParams
             ? (
                 params?: Simplify<TParams>,
                 requestOptions?: RequestOptions
-              ) => RouteFunctionResult<TResult, TErrorMode>
+              ) => RouteFunctionResult<TResult, TErrorMode, TError>
             : (
                 params: Simplify<TParams>,
                 requestOptions?: RequestOptions
-              ) => RouteFunctionResult<TResult, TErrorMode>) &
+              ) => RouteFunctionResult<TResult, TErrorMode, TError>) &
           RouteTypeInfo<TRoute>
       : never
     : never
 
-type RouteFunctionResult<TResult, TErrorMode extends ErrorMode> =
+type RouteFunctionResult<
+  TResult,
+  TErrorMode extends ErrorMode,
+  TError = Error,
+> =
   TResult extends ResponseStream<any>
     ? TResult
     : TErrorMode extends 'return'
-      ? Promise<[Error, undefined] | [undefined, Awaited<TResult>]>
+      ? // Undeclared errors (like network failures) are returned too.
+        Promise<[TError | Error, undefined] | [undefined, Awaited<TResult>]>
       : TResult
 
 export type FetchOptions = RequestOptions & {
@@ -0,0 +1,57 @@
+import type { AuthOptions } from '../types.js'
+
+type AuthState = {
+  /** Incremented after each successful refresh. */
+  generation: number
+  refresh: Promise<void> | null
+}
+
+// Clients extended from one another share the same `auth` object, so
+// their token refreshes are deduplicated too.
+const authStates = new WeakMap<AuthOptions, AuthState>()
+
+function getAuthState(auth: AuthOptions) {
+  let state = authStates.get(auth)
+  if (!state) {
+    state = { generation: 0, refresh: null }
+    authStates.set(auth, state)
+  }
+  return state
+}
+
+/**
+ * Returns a number that changes whenever the token is refreshed.
+ */
+export function getAuthGeneration(auth: AuthOptions) {
+  return getAuthState(auth).generation
+}
+
+/**
+ * Returns the `Authorization` header value for the current token, if any.
+ */
+export async function getAuthorization(auth: AuthOptions) {
+  const token = await auth.getToken()
+  return token ? 'Bearer ' + token : undefined
+}
+
+/**
+ * Refresh the token, unless it was refreshed since the given generation.
+ * Concurrent calls share the same refresh.
+ */
+export function refreshAuthToken(
+  auth: AuthOptions,
+  generation: number
+): Promise<void> {
+  const state = getAuthState(auth)
+  if (state.generation !== generation) {
+    return Promise.resolve()
+  }
+  return (state.refresh ??= (async () => {
+    try {
+      await auth.refreshToken()
+      state.generation++
+    } finally {
+      state.refresh = null
+    }
+  })())
+}
@@ -0,0 +1,138 @@
+import { parseJSONSequence } from './jsonSequence.js'
+
+export type BatchedRequest = {
+  request: Request
+  /** Relative to the prefix URL, including the search string. */
+  path: string
+  /** The JSON request body. */
+  json: unknown
+  /** Seconds to wait for the result, or zero to wait forever. */
+  timeout: number
+  /** Send the request on its own. */
+  send: () => Promise<Response>
+  resolve: (response: Response) => void
+  reject: (error: unknown) => void
+}
+
+type BatchRecord = {
+  id: number
+  status: number
+  body?: unknown
+  /** The content type of the body, if not `application/json`. */
+  contentType?: string
+}
+
+/**
+ * Collect the requests made in the same tick, so they can be sent in one
+ * batch request. If only one request was made, it's sent on its own.
+ */
+export function createBatchQueue(
+  limit: number,
+  sendBatch: (requests: BatchedRequest[]) => Promise<Response>
+) {
+  let queue: BatchedRequest[] = []
+
+  const flush = () => {
+    const requests = queue
+    queue = []
+
+    for (let offset = 0; offset < requests.length; offset += limit) {
+      const batch = requests.slice(offset, offset + limit)
+      if (batch.length === 1) {
+        batch[0].send().then(batch[0].resolve, batch[0].reject)
+      } else {
+        settleBatch(batch, sendBatch(batch))
+      }
+    }
+  }
+
+  return (
+    request: Omit<BatchedRequest, 'resolve' | 'reject'>
+  ): Promise<Response> =>
+    new Promise((resolve, reject) => {
+      const { signal } = request.request
+      signal.throwIfAborted()
+
+      const onAbort = () => reject(signal.reason)
+      signal.addEventListener('abort', onAbort)
+
+      const timeoutId =
+        request.timeout > 0
+          ? setTimeout(() => {
+              reject(new DOMException('Request timed out', 'TimeoutError'))
+            }, request.timeout * 1000)
+          : undefined
+
+      const cleanup = () => {
+        signal.removeEventListener('abort', onAbort)
+        clearTimeout(timeoutId)
+      }
+
+      if (!queue.length) {
+        queueMicrotask(flush)
+      }
+      queue.push({
+        ...request,
+        resolve(response) {
+          cleanup()
+          resolve(response)
+        },
+        reject(error) {
+          cleanup()
+          reject(error)
+        },
+      })
+    })
+}
+
+/**
+ * Resolve each request with a response created from its record. Requests
+ * without a record are rejected once the batch response ends.
+ */
+async function settleBatch(
+  requests: BatchedRequest[],
+  promisedResponse: Promise<Response>
+) {
+  const pending = new Set(requests)
+  try {
+    const response = await promisedResponse
+    if (response.body) {
+      const reader = response.body
+        .pipeThrough(new TransformStream(parseJSONSequence()))
+        .getReader()
+
+      while (true) {
+        const { done, value } = await reader.read()
+        if (done) {
+          break
+        }
+        const record = value as BatchRecord
+        const request = requests[record.id]
+        if (request && pending.delete(request)) {
+          request.resolve(
+            new Response(
+              record.body !== undefined ? JSON.stringify(record.body) : null,
+              {
+                status: record.status,
+                headers:
+                  record.body !== undefined
+                    ? {
+                        'Content-Type':
+                          record.contentType ?? 'application/json',
+                      }
+                    : undefined,
+              }
+            )
+          )
+        }
+      }
+    }
+    for (const request of pending) {
+      request.reject(new Error('Batch response is missing a result'))
+    }
+  } catch (error) {
+    for (const request of pending) {
+      request.reject(error)
+    }
+  }
+}
@@ -0,0 +1,66 @@
+type ValidatedResponse = {
+  etag: string
+  body: string
+  headers: Headers
+}
+
+/**
+ * The last JSON response with an ETag, keyed by request URL. Entries are
+ * kept in order of use, so the least recently used are evicted first.
+ */
+export type ValidatedResponseCache = Map<string, ValidatedResponse>
+
+/**
+ * How many responses are kept per client.
+ */
+const maxValidatedResponses = 100
+
+/**
+ * Send a GET request with an `If-None-Match` header, if a JSON response
+ * with an ETag was received for its URL. When the server responds with
+ * `304 Not Modified`, the body of that response is reused.
+ */
+export async function sendConditionalRequest(
+  cache: ValidatedResponseCache,
+  request: Request,
+  send: () => Promise<Response>
+): Promise<Response> {
+  // Never override an `If-None-Match` header set by the caller.
+  const cached = !request.headers.has('If-None-Match')
+    ? cache.get(request.url)
+    : undefined
+
+  if (cached) {
+    request.headers.set('If-None-Match', cached.etag)
+
+    // Move it to the end, so it's evicted last.
+    cache.delete(request.url)
+    cache.set(request.url, cached)
+  }
+
+  const response = await send()
+
+  if (response.status === 304 && cached) {
+    return new Response(cached.body, {
+      status: 200,
+      headers: cached.headers,
+    })
+  }
+
+  if (response.status === 200) {
+    const etag = response.headers.get('ETag')
+    if (etag && response.headers.get('Content-Type') === 'application/json') {
+      cache.set(request.url, {
+        etag,
+        body: await response.clone().text(),
+        headers: response.headers,
+      })
+      if (cache.size > maxValidatedResponses) {
+        cache.delete(cache.keys().next().value!)
+      }
+    } else {
+      cache.delete(request.url)
+    }
+  }
+  return response
+}
@@ -0,0 +1,45 @@
+import type { ws } from '../types.js'
+
+type ConnectionListeners = Map<
+  keyof ws.ConnectionEvents,
+  Set<(...args: any[]) => void>
+>
+
+// Listeners are keyed by the client that owns the connection. Extended
+// clients have their own connection, so they have their own listeners.
+const connectionListeners = new WeakMap<object, ConnectionListeners>()
+
+export function addConnectionListener<E extends keyof ws.ConnectionEvents>(
+  client: object,
+  event: E,
+  listener: ws.ConnectionEvents[E]
+) {
+  let events = connectionListeners.get(client)
+  if (!events) {
+    events = new Map()
+    connectionListeners.set(client, events)
+  }
+  let listeners = events.get(event)
+  if (!listeners) {
+    listeners = new Set()
+    events.set(event, listeners)
+  }
+  listeners.add(listener)
+
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function emitConnectionEvent<E extends keyof ws.ConnectionEvents>(
+  client: object,
+  event: E,
+  ...args: Parameters<ws.ConnectionEvents[E]>
+) {
+  const listeners = connectionListeners.get(client)?.get(event)
+  if (listeners) {
+    for (const listener of [...listeners]) {
+      listener(...args)
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Parse a JSON text sequence into its records.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc7464
+ */
+export function parseJSONSequence(): Transformer<Uint8Array, object> {
+  const decoder = new TextDecoder()
+  const separator = 0x1e // ASCII code for Record Separator
+  const lineFeed = 0x0a // ASCII code for Line Feed
+
+  let buffer = new Uint8Array(0)
+
+  const parse = (controller: TransformStreamDefaultController) => {
+    // Verify that the first byte is a record separator.
+    if (buffer.at(0) !== separator) {
+      throw new Error('Invalid JSON sequence')
+    }
+
+    let nextIndex = 0
+    let endIndex: number
+
+    while (nextIndex < buffer.length) {
+      endIndex = buffer.indexOf(separator, nextIndex + 1)
+      if (endIndex === -1) {
+        endIndex = buffer.length
+      }
+      if (buffer.at(endIndex - 1) !== lineFeed) {
+        break
+      }
+      // Decode the text between the record separator and the line feed.
+      const text = decoder.decode(buffer.subarray(nextIndex + 1, endIndex - 1))
+      controller.enqueue(JSON.parse(text))
+      nextIndex = endIndex
+    }
+
+    return nextIndex
+  }
+
+  return {
+    transform(chunk: Uint8Array, controller) {
+      buffer = concatUint8Arrays(buffer, chunk)
+      const nextIndex = parse(controller)
+      if (nextIndex > 0) {
+        buffer = buffer.subarray(nextIndex)
+      }
+    },
+    flush(controller) {
+      if (buffer.length) {
+        parse(controller)
+      }
+    },
+  }
+}
+
+function concatUint8Arrays(
+  a: Uint8Array,
+  b: Uint8Array
+): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(a.length + b.length)
+  result.set(a, 0)
+  result.set(b, a.length)
+  return result
+}
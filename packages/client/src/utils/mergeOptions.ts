@@ -1,10 +1,11 @@
 import { ClientOptions, ResolvedClientOptions } from '../types.js'
 import { mergeHeaders } from './mergeHeaders.js'
 import { mergeHooks } from './mergeHooks.js'
+import { resolveResultCacheOptions } from './resultCache.js'
 import { mergeRetryOptions } from './retry.js'
 
 export function mergeOptions(
-  parentOptions: ClientOptions<any> | undefined,
+  parentOptions: ResolvedClientOptions<any> | undefined,
   options: ClientOptions<any> | undefined
 ): ResolvedClientOptions<any> {
   return {
@@ -14,5 +15,23 @@ export function mergeOptions(
     retry: mergeRetryOptions(parentOptions?.retry, options?.retry),
     headers: mergeHeaders(parentOptions?.headers, options?.headers),
     errorMode: options?.errorMode ?? parentOptions?.errorMode ?? 'reject',
+    resultCache:
+      options?.resultCache !== undefined
+        ? resolveResultCacheOptions(options.resultCache)
+        : inheritResultCache(parentOptions?.resultCache, options),
   }
 }
+
+/**
+ * Results may depend on who sent the request, so a client with its own
+ * headers or auth gets an empty store instead of its parent's.
+ */
+function inheritResultCache(
+  resultCache: ResolvedClientOptions['resultCache'],
+  options: ClientOptions<any> | undefined
+) {
+  if (resultCache && (options?.headers || options?.auth)) {
+    return { ...resultCache, store: new Map() }
+  }
+  return resultCache
+}
@@ -0,0 +1,97 @@
+import { isProblemDetails, ProblemError } from '../error.js'
+import type {
+  RequestOptions,
+  ResponseStream,
+  Route,
+  RoutePagination,
+} from '../types.js'
+import { revive } from './revive.js'
+
+/**
+ * Wrap the records of a streaming response, handling the pagination and
+ * error records that a route may end with.
+ */
+export function createResponseStream(
+  records: AsyncIterable<unknown>,
+  route: Route,
+  requestPage: (path: string, options?: RequestOptions) => ResponseStream<any>
+): ResponseStream<any> {
+  async function* parse() {
+    for await (const value of records) {
+      if (value != null && isRoutePagination(value)) {
+        attachPageMethods(responseStream, value, requestPage)
+      } else if (value != null && isRouteError(value)) {
+        throw isProblemDetails(value.$error)
+          ? new ProblemError(value.$error)
+          : Object.assign(new Error(), value.$error)
+      } else if (route.revive) {
+        yield revive(value, route.revive)
+      } else {
+        yield value
+      }
+    }
+  }
+
+  const responseStream: ResponseStream<any> = parse() as any
+  responseStream.toArray = toArray
+  return responseStream
+}
+
+async function toArray(this: AsyncIterableIterator<any>) {
+  const result = []
+  for await (const value of this) {
+    result.push(value)
+  }
+  return result
+}
+
+function attachPageMethods(
+  responseStream: ResponseStream<any>,
+  object: RoutePagination,
+  requestPage: (path: string, options?: RequestOptions) => ResponseStream<any>
+) {
+  if (object.$prev) {
+    responseStream.previousPage = options => requestPage(object.$prev!, options)
+  }
+  if (object.$next) {
+    responseStream.nextPage = options => requestPage(object.$next!, options)
+  }
+}
+
+function isRoutePagination(arg: {}): arg is RoutePagination {
+  // The server ensures both `prev` and `next` are defined, even though the
+  // RpcPagination type says otherwise.
+  return (
+    Object.prototype.hasOwnProperty.call(arg, '$prev') &&
+    Object.prototype.hasOwnProperty.call(arg, '$next') &&
+    hasExactKeyCount(arg, 2)
+  )
+}
+
+function isRouteError(arg: {}): arg is { $error: any } {
+  return (
+    Object.prototype.hasOwnProperty.call(arg, '$error') &&
+    hasExactKeyCount(arg, 1)
+  )
+}
+
+/**
+ * Cursor records are sent by the server, so a `json-seq` stream can be
+ * resumed after the connection is lost.
+ */
+export function isRouteCursor(arg: {}): arg is { $cursor: unknown } {
+  return (
+    Object.prototype.hasOwnProperty.call(arg, '$cursor') &&
+    hasExactKeyCount(arg, 1)
+  )
+}
+
+function hasExactKeyCount(object: {}, count: number) {
+  let i = 0
+  for (const _ in object) {
+    if (++i > count) {
+      break
+    }
+  }
+  return i === count
+}
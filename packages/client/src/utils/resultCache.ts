@@ -0,0 +1,118 @@
+import type {
+  ResolvedClientOptions,
+  ResultCacheOptions,
+  RouteResultCache,
+} from '../types.js'
+
+type ResultCache = NonNullable<ResolvedClientOptions['resultCache']>
+
+export function resolveResultCacheOptions(
+  options: boolean | ResultCacheOptions
+): ResultCache | undefined {
+  if (options === false) {
+    return undefined
+  }
+  const {
+    ttl = 60,
+    staleWhileRevalidate = 0,
+    store = new Map(),
+  } = options === true ? {} : options
+
+  return { ttl, staleWhileRevalidate, store }
+}
+
+export function getResultCacheKey(routeName: string, path: string) {
+  return routeName + ':' + path
+}
+
+// Loads in progress, keyed by the store they write to. Invalidated keys are
+// removed, so their loads don't store an outdated result.
+const pendingLoads = new WeakMap<
+  RouteResultCache,
+  Map<string, Promise<unknown>>
+>()
+
+/**
+ * Use the cached result for the given key if it's fresh. A stale result is
+ * used while a background request replaces it. Otherwise, the result is
+ * loaded and stored. Failed loads are never stored.
+ */
+export function loadCachedResult(
+  cache: ResultCache,
+  key: string,
+  load: () => Promise<unknown>
+): Promise<unknown> {
+  const cached = cache.store.get(key)
+  const age = cached ? (Date.now() - cached.time) / 1000 : Infinity
+
+  if (age < cache.ttl) {
+    return Promise.resolve(cached!.value)
+  }
+
+  const promise = revalidate(cache.store, key, load)
+  if (age < cache.ttl + cache.staleWhileRevalidate) {
+    promise.catch(() => {})
+    return Promise.resolve(cached!.value)
+  }
+  return promise
+}
+
+function revalidate(
+  store: RouteResultCache,
+  key: string,
+  load: () => Promise<unknown>
+) {
+  let loads = pendingLoads.get(store)
+  if (!loads) {
+    loads = new Map()
+    pendingLoads.set(store, loads)
+  }
+  let promise = loads.get(key)
+  if (!promise) {
+    const loading = (promise = load().then(
+      value => {
+        if (loads.get(key) === loading) {
+          loads.delete(key)
+          store.set(key, { value, time: Date.now() })
+        }
+        return value
+      },
+      error => {
+        if (loads.get(key) === loading) {
+          loads.delete(key)
+        }
+        throw error
+      }
+    ))
+    loads.set(key, promise)
+  }
+  return promise
+}
+
+/**
+ * Remove the cached results of a route. Without a path, every result of
+ * the route is removed. Loads in progress are ignored once they finish.
+ */
+export function invalidateCachedResults(
+  cache: ResultCache,
+  routeName: string,
+  path?: string
+) {
+  const prefix = getResultCacheKey(routeName, '')
+  const matches = (key: string) =>
+    path !== undefined ? key === prefix + path : key.startsWith(prefix)
+
+  for (const key of [...cache.store.keys()]) {
+    if (matches(key)) {
+      cache.store.delete(key)
+    }
+  }
+  const loads = pendingLoads.get(cache.store)
+  if (loads) {
+    for (const key of [...loads.keys()]) {
+      if (matches(key)) {
+        loads.delete(key)
+      }
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import type { Reviver } from '../types.js'
+
+/**
+ * Revive the `Date` and `bigint` values of a JSON value, as described by
+ * the reviver that the generator attached to its route.
+ */
+export function revive(value: unknown, reviver: Reviver): any {
+  if (value == null) {
+    return value
+  }
+  if (reviver === 'd') {
+    return typeof value === 'string' ? new Date(value) : value
+  }
+  if (reviver === 'b') {
+    return typeof value === 'string' ? BigInt(value) : value
+  }
+  if (Array.isArray(reviver)) {
+    return Array.isArray(value)
+      ? value.map(element => revive(element, reviver[0]))
+      : value
+  }
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    for (const key in record) {
+      const propertyReviver = reviver[key] ?? reviver['*']
+      if (propertyReviver) {
+        record[key] = revive(record[key], propertyReviver)
+      }
+    }
+  }
+  return value
+}
@@ -0,0 +1,345 @@
+import type { RouteMethod, RouteResultFormat } from '@alien-rpc/route'
+import { isEqual } from 'radashi'
+import type { JSONSchema } from './json-schema.js'
+
+/**
+ * The parts of a route that its clients depend on. Schemas are JSON
+ * schemas, so they can be compared without the TypeBox code that
+ * produced them.
+ */
+export type RouteContract =
+  | {
+      method: RouteMethod
+      /** The pathname, without the `versionPrefix`. */
+      path: string
+      format: RouteResultFormat
+      pathParams: JSONSchema
+      request: JSONSchema
+      result: JSONSchema
+    }
+  | {
+      pattern: 'n' | 'r' | 's'
+      request: JSONSchema
+      result: JSONSchema
+    }
+  | {
+      topic: string
+    }
+
+/**
+ * The contents of the lockfile.
+ */
+export type ContractLock = {
+  versionPrefix: string | null
+  routes: Record<string, RouteContract>
+}
+
+export type ContractChange = {
+  /** The route name, including its namespace. */
+  route: string
+  message: string
+  /** When true, existing clients may not work with the new route. */
+  breaking: boolean
+}
+
+/**
+ * Compare the route contracts of the lockfile with the current ones.
+ *
+ * Input (path parameters and requests) may be widened, while output may be
+ * narrowed. Anything else is a breaking change, including removed routes
+ * and changes to a route's method, path, or format.
+ */
+export function diffContracts(
+  locked: ContractLock,
+  current: ContractLock
+): ContractChange[] {
+  const changes: ContractChange[] = []
+
+  for (const name in locked.routes) {
+    if (!(name in current.routes)) {
+      changes.push({
+        route: name,
+        message: 'Route was removed',
+        breaking: true,
+      })
+    }
+  }
+
+  for (const [name, contract] of Object.entries(current.routes)) {
+    const lockedContract = locked.routes[name]
+    if (!lockedContract) {
+      changes.push({ route: name, message: 'Route was added', breaking: false })
+      continue
+    }
+
+    const change = (message: string, breaking: boolean) =>
+      changes.push({ route: name, message, breaking })
+
+    const compareInput = (label: string, from: JSONSchema, to: JSONSchema) => {
+      if (!isEqual(from, to)) {
+        if (isSchemaAssignable(from, to, false)) {
+          change(`${label} was widened`, false)
+        } else {
+          change(`${label} was narrowed`, true)
+        }
+      }
+    }
+
+    // Clients ignore unknown properties, so they're allowed in results.
+    const compareOutput = (label: string, from: JSONSchema, to: JSONSchema) => {
+      if (!isEqual(from, to)) {
+        if (isSchemaAssignable(to, from, true)) {
+          change(`${label} was narrowed`, false)
+        } else {
+          change(`${label} was widened`, true)
+        }
+      }
+    }
+
+    if ('topic' in contract || 'topic' in lockedContract) {
+      if (!('topic' in contract) || !('topic' in lockedContract)) {
+        change('Route was replaced with a topic (or vice versa)', true)
+      } else if (contract.topic !== lockedContract.topic) {
+        change(
+          `Topic changed from "${lockedContract.topic}" to "${contract.topic}"`,
+          true
+        )
+      }
+    } else if ('pattern' in contract || 'pattern' in lockedContract) {
+      if (!('pattern' in contract) || !('pattern' in lockedContract)) {
+        change('Protocol changed', true)
+      } else {
+        if (contract.pattern !== lockedContract.pattern) {
+          change(
+            `Pattern changed from "${lockedContract.pattern}" to "${contract.pattern}"`,
+            true
+          )
+        }
+        compareInput('Request', lockedContract.request, contract.request)
+        compareOutput('Result', lockedContract.result, contract.result)
+      }
+    } else {
+      if (contract.method !== lockedContract.method) {
+        change(
+          `Method changed from ${lockedContract.method} to ${contract.method}`,
+          true
+        )
+      }
+      if (contract.path !== lockedContract.path) {
+        change(
+          `Path changed from ${lockedContract.path} to ${contract.path}`,
+          true
+        )
+      }
+      if (contract.format !== lockedContract.format) {
+        change(
+          `Format changed from ${lockedContract.format} to ${contract.format}`,
+          true
+        )
+      }
+      compareInput(
+        'Path parameters',
+        lockedContract.pathParams,
+        contract.pathParams
+      )
+      compareInput('Request', lockedContract.request, contract.request)
+      compareOutput('Result', lockedContract.result, contract.result)
+    }
+  }
+
+  return changes
+}
+
+const annotationKeys = new Set([
+  'title',
+  'description',
+  'default',
+  'examples',
+  '$id',
+])
+
+const constraintKeys = [
+  'format',
+  'pattern',
+  'minimum',
+  'maximum',
+  'exclusiveMinimum',
+  'exclusiveMaximum',
+  'multipleOf',
+  'minLength',
+  'maxLength',
+] as const
+
+/**
+ * Returns true if every value matching `source` also matches `target`.
+ * When unsure, this returns false, so changes are reported as breaking
+ * rather than missed.
+ *
+ * When `allowExtraProperties` is true, objects may have properties that
+ * the target doesn't allow.
+ */
+function isSchemaAssignable(
+  source: JSONSchema,
+  target: JSONSchema,
+  allowExtraProperties: boolean
+): boolean {
+  if (isEqual(source, target)) {
+    return true
+  }
+  // Anything is assignable to an unconstrained schema.
+  if (Object.keys(target).every(key => annotationKeys.has(key))) {
+    return true
+  }
+  if (Array.isArray(source.anyOf)) {
+    return source.anyOf.every((member: JSONSchema) =>
+      isSchemaAssignable(member, target, allowExtraProperties)
+    )
+  }
+  if (Array.isArray(target.anyOf)) {
+    return target.anyOf.some((member: JSONSchema) =>
+      isSchemaAssignable(source, member, allowExtraProperties)
+    )
+  }
+  // An `undefined` result is described with `{not: {}}`, which is only
+  // assignable to itself.
+  if (
+    source.not ||
+    target.not ||
+    source.allOf ||
+    target.allOf ||
+    source.$ref ||
+    target.$ref
+  ) {
+    return false
+  }
+  if ('const' in target) {
+    return 'const' in source && isEqual(source.const, target.const)
+  }
+  if (Array.isArray(target.enum)) {
+    if ('const' in source) {
+      return target.enum.some((value: unknown) => isEqual(value, source.const))
+    }
+    return (
+      Array.isArray(source.enum) &&
+      source.enum.every((value: unknown) =>
+        target.enum.some((other: unknown) => isEqual(value, other))
+      )
+    )
+  }
+  if (
+    source.type !== target.type &&
+    !(source.type === 'integer' && target.type === 'number')
+  ) {
+    return false
+  }
+  switch (target.type) {
+    case 'object':
+      return isObjectAssignable(source, target, allowExtraProperties)
+    case 'array':
+      return isArrayAssignable(source, target, allowExtraProperties)
+  }
+  return constraintKeys.every(
+    key => !(key in target) || source[key] === target[key]
+  )
+}
+
+function isObjectAssignable(
+  source: JSONSchema,
+  target: JSONSchema,
+  allowExtraProperties: boolean
+) {
+  const sourceProperties: Record<string, JSONSchema> = source.properties ?? {}
+  const targetProperties: Record<string, JSONSchema> = target.properties ?? {}
+  const sourceRequired = new Set<string>(source.required ?? [])
+
+  for (const key of target.required ?? []) {
+    if (!sourceRequired.has(key)) {
+      return false
+    }
+  }
+
+  // Null means no other properties are allowed.
+  const sourceRest = getRestSchema(source)
+  const targetRest = allowExtraProperties ? {} : getRestSchema(target)
+
+  for (const [key, schema] of Object.entries(sourceProperties)) {
+    const targetSchema = targetProperties[key] ?? targetRest
+    if (
+      !targetSchema ||
+      !isSchemaAssignable(schema, targetSchema, allowExtraProperties)
+    ) {
+      return false
+    }
+  }
+  for (const [key, schema] of Object.entries(targetProperties)) {
+    if (
+      !(key in sourceProperties) &&
+      sourceRest &&
+      !isSchemaAssignable(sourceRest, schema, allowExtraProperties)
+    ) {
+      return false
+    }
+  }
+  if (sourceRest) {
+    return (
+      !!targetRest &&
+      isSchemaAssignable(sourceRest, targetRest, allowExtraProperties)
+    )
+  }
+  return true
+}
+
+/**
+ * Get the schema of properties not listed in `properties`.
+ */
+function getRestSchema(schema: JSONSchema): JSONSchema | null {
+  if (schema.additionalProperties === false) {
+    return null
+  }
+  if (schema.patternProperties) {
+    // TypeBox records use a single pattern that matches every key.
+    const patterns = Object.values<JSONSchema>(schema.patternProperties)
+    if (patterns.length !== 1) {
+      return {}
+    }
+    return patterns[0].not ? null : patterns[0]
+  }
+  if (schema.additionalProperties && schema.additionalProperties !== true) {
+    return schema.additionalProperties
+  }
+  return {}
+}
+
+function isArrayAssignable(
+  source: JSONSchema,
+  target: JSONSchema,
+  allowExtraProperties: boolean
+) {
+  if ((target.minItems ?? 0) > (source.minItems ?? 0)) {
+    return false
+  }
+  if (
+    target.maxItems !== undefined &&
+    (source.maxItems ?? Infinity) > target.maxItems
+  ) {
+    return false
+  }
+  const sourceItems: JSONSchema[] | JSONSchema = source.items ?? {}
+  const targetItems: JSONSchema[] | JSONSchema = target.items ?? {}
+
+  if (Array.isArray(targetItems)) {
+    return (
+      Array.isArray(sourceItems) &&
+      sourceItems.length === targetItems.length &&
+      sourceItems.every((item, index) =>
+        isSchemaAssignable(item, targetItems[index], allowExtraProperties)
+      )
+    )
+  }
+  if (Array.isArray(sourceItems)) {
+    return sourceItems.every(item =>
+      isSchemaAssignable(item, targetItems, allowExtraProperties)
+    )
+  }
+  return isSchemaAssignable(sourceItems, targetItems, allowExtraProperties)
+}
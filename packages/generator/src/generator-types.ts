@@ -1,5 +1,6 @@
 import type { ShallowOptions } from 'option-types'
 import type ts from 'typescript'
+import type { ContractChange } from './contracts.js'
 import type { Project } from './project.js'
 import type { AnalyzedFile } from './project/analyze-file.js'
 import type { AnalyzedRoute } from './project/analyze-route.js'
@@ -30,6 +31,40 @@ export type Options = ShallowOptions<{
    * @default 'client/generated/api.ts'
    */
   clientOutFile?: string
+  /**
+   * When defined, an OpenAPI 3.1 document describing your HTTP routes is
+   * written to this path. WebSocket routes are not included.
+   */
+  openApiOutFile?: string
+  /**
+   * When defined, a module with a mock result for each route is written
+   * to this path. The results are derived from the route's result type,
+   * and they're meant to be used with `defineMockClient` from the client
+   * package. Relative to the `outDir`.
+   */
+  mocksOutFile?: string
+  /**
+   * When defined, the contract of each route (its method, path, format,
+   * parameters, request, and result) is written to this JSON file, which
+   * should be committed. On later runs, the routes are compared to the
+   * lockfile, and any changes are emitted with a `contracts` event.
+   *
+   * Breaking changes aren't written to the lockfile until the
+   * `versionPrefix` is changed. Relative to the root directory.
+   */
+  lockFile?: string
+  /**
+   * When true, no files are written. Combined with `lockFile`, this only
+   * compares the routes to the lockfile.
+   */
+  dryRun?: boolean
+  /**
+   * Path to a client module whose exported functions can be called by the
+   * server over the WebSocket connection (with `ctx.client`). The server's
+   * types for these functions are written to the `serverOutFile`. Relative
+   * to the root directory.
+   */
+  clientHandlersFile?: string
   /**
    * By default, any generated files are formatted using your preferred
    * formatter. This results in a double-save, once with the unformatted
@@ -50,6 +85,41 @@ export type Options = ShallowOptions<{
    * application.
    */
   versionPrefix?: string
+  /**
+   * Serve multiple versions of your API at once. Each route is served
+   * under every version in its `since` and `until` range (e.g.
+   * `route('/foo', { since: 'v2' })`), so `/foo` becomes `/v1/foo` and
+   * `/v2/foo`. Versions are compared with numeric collation, so `v10`
+   * comes after `v9`.
+   *
+   * The server file covers every version, while a client file is written
+   * for each version, in a directory named after it (e.g.
+   * `client/generated/v2/api.ts`). The same goes for the `mocksOutFile`.
+   * The `lockFile` only covers the latest version.
+   *
+   * Cannot be combined with `versionPrefix`.
+   */
+  versions?: string[]
+  /**
+   * When true, `Date` and `bigint` values in route results are revived by
+   * the client, instead of being typed as strings. The client route
+   * definitions will include a compact description of where those values
+   * are found. Note that WebSocket routes are not affected.
+   *
+   * @default false
+   */
+  reviveResults?: boolean
+  /**
+   * The result format of routes that return an async iterable. Use `sse`
+   * for server-sent events (`text/event-stream`), which proxies and
+   * browser devtools tend to handle better than JSON text sequences.
+   *
+   * A route can override this with a `@format sse` or `@format json-seq`
+   * tag in its JSDoc comment.
+   *
+   * @default 'json-seq'
+   */
+  streamFormat?: 'json-seq' | 'sse'
   /**
    * When true, diagnostics for node_modules are printed to the console.
    *
@@ -123,3 +193,11 @@ export type Event =
   | { type: 'route'; route: AnalyzedRoute }
   | { type: 'warning'; message: string }
   | { type: 'info'; message: string | [string, ...any[]] }
+  | {
+      type: 'contracts'
+      lockFile: string
+      /** Null if the lockfile doesn't exist yet. */
+      changes: ContractChange[] | null
+      /** True if the `versionPrefix` differs from the lockfile's. */
+      versionChanged: boolean
+    }
@@ -7,14 +7,29 @@ import path from 'path'
 import { parsePathParams } from 'pathic'
 import { camel, dedent, guard, pascal, sift } from 'radashi'
 import type { Event, Options, Store } from './generator-types.js'
+import {
+  diffContracts,
+  type ContractLock,
+  type RouteContract,
+} from './contracts.js'
+import { debug } from './debug.js'
+import { createSchemaEvaluator, type JSONSchema } from './json-schema.js'
+import { createMockValue, printMockValue } from './mocks.js'
+import { createOpenApiDocument, type OpenApiRoute } from './openapi.js'
 import { createProject } from './project.js'
+import {
+  analyzeClientHandlers,
+  type AnalyzedClientHandlers,
+} from './project/analyze-client-handlers.js'
 import { analyzeFile } from './project/analyze-file.js'
 import {
   AnalyzedRoute,
   ResolvedHttpRoute,
   ResolvedWsRoute,
+  ResolvedWsTopic,
 } from './project/analyze-route.js'
 import { reportDiagnostics } from './project/diagnostics.js'
+import type { ResultReviver } from './project/result-reviver.js'
 import { createSupportingTypes } from './project/supporting-types.js'
 import { createTsConfigCache } from './project/tsconfig.js'
 import { typeConstraints } from './type-constraints.js'
@@ -34,11 +49,49 @@ export default (rawOptions: Options) =>
 
     options.serverOutFile = path.resolve(options.outDir, options.serverOutFile)
     options.clientOutFile = path.resolve(options.outDir, options.clientOutFile)
+    if (options.openApiOutFile) {
+      options.openApiOutFile = path.resolve(
+        options.outDir,
+        options.openApiOutFile
+      )
+    }
+    if (options.mocksOutFile) {
+      options.mocksOutFile = path.resolve(options.outDir, options.mocksOutFile)
+    }
+    if (options.lockFile) {
+      options.lockFile = path.resolve(root, options.lockFile)
+    }
+    if (options.versions) {
+      if (options.versionPrefix) {
+        throw new Error(
+          'The "versions" and "versionPrefix" options cannot be combined'
+        )
+      }
+      options.versions = [...options.versions].sort(compareVersions)
+    }
+
+    // Without the `versions` option, there's one unnamed version.
+    const apiVersions = options.versions ?? ['']
+    const latestVersion = apiVersions[apiVersions.length - 1]
+
+    const clientOutFiles = apiVersions.map(version =>
+      getVersionedFile(options.clientOutFile, version)
+    )
+    const mocksOutFiles = options.mocksOutFile
+      ? apiVersions.map(version =>
+          getVersionedFile(options.mocksOutFile!, version)
+        )
+      : []
 
     const entryFilePaths = fs.scan(options.include, {
       cwd: root,
       absolute: true,
-      ignore: [options.clientOutFile, options.serverOutFile],
+      ignore: sift([
+        ...clientOutFiles,
+        options.serverOutFile,
+        options.openApiOutFile,
+        ...mocksOutFiles,
+      ]),
     })
 
     if (!entryFilePaths.length) {
@@ -159,6 +212,16 @@ export default (rawOptions: Options) =>
             }
           }
 
+          // Streaming routes use their `@format` tag or the `streamFormat`
+          // option.
+          for (const route of metadata.routes) {
+            const httpRoute = route.resolvedHttpRoute
+            if (httpRoute?.format === 'json-seq') {
+              httpRoute.format =
+                httpRoute.streamFormat ?? options.streamFormat ?? 'json-seq'
+            }
+          }
+
           for (const route of metadata.routes) {
             emit({ type: 'route', route })
           }
@@ -205,14 +268,66 @@ export default (rawOptions: Options) =>
       throw new Error('No routes were exported by the included files')
     }
 
-    const clientDefinitions: Record<string, string[]> = {}
-    const clientTypeImports = new Set<string>(['Route'])
-    const clientProtocols = new Set<string>()
-    const clientFormats = new Set<string>()
+    let clientHandlers: AnalyzedClientHandlers | undefined
+    if (options.clientHandlersFile) {
+      const clientHandlersFile = path.resolve(root, options.clientHandlersFile)
+      const sourceFile = project.getSourceFile(clientHandlersFile)
+      if (!sourceFile) {
+        throw new Error(
+          `The clientHandlersFile (${clientHandlersFile}) is not included by your tsconfig`
+        )
+      }
+      fs.watch(sourceFile.fileName)
+      project.collectDependencies(
+        sourceFile,
+        project.compilerOptions,
+        project.getModuleResolutionHost()
+      )
+      clientHandlers = analyzeClientHandlers(project, sourceFile)
+    }
+
+    const clientModules = new Map(
+      apiVersions.map((version): [string, ClientModule] => [
+        version,
+        {
+          definitions: {},
+          typeImports: new Set(['Route']),
+          protocols: new Set(),
+          formats: new Set(),
+          routeNames: new Set(),
+          mockRoutes: [],
+        },
+      ])
+    )
+
+    const addClientDefinition = (
+      clientModule: ClientModule,
+      version: string,
+      name: string,
+      definition: (methodName: string) => string
+    ) => {
+      if (clientModule.routeNames.has(name)) {
+        emit({
+          type: 'warning',
+          message: `Route "${name}" is defined more than once${version ? ` in ${version}` : ''}`,
+        })
+      }
+      clientModule.routeNames.add(name)
+
+      const [methodName, scopeName = ''] = name.split('.').reverse()
+      const scopeDefinitions = (clientModule.definitions[scopeName] ??= [])
+      scopeDefinitions.push(definition(methodName))
+    }
 
     const serverDefinitions: string[] = []
     const serverImports = new Set<string>()
 
+    const openApiRoutes: OpenApiRoute[] = []
+
+    // Contracts are created once the type aliases can be evaluated.
+    const routeContracts: [name: string, getContract: () => RouteContract][] =
+      []
+
     const serverCheckedStringFormats = new Set<string>()
     const collectValidatedStringFormats = (content: string) => {
       for (const match of content.matchAll(
@@ -246,10 +361,49 @@ export default (rawOptions: Options) =>
       return schema
     }
 
+    const generateResponseSchema = async (
+      routeName: string,
+      resultType: string
+    ) => {
+      try {
+        const schema = await project.generateRuntimeValidator(
+          `type Response = ${resultType}`
+        )
+        // Enum members (e.g. `Color.Red`) are only valid as literals of the
+        // enum declared in the server module.
+        return schema.replace(/\b(\w+)\.(\w+)\b/g, (match, name, member) =>
+          /^(export )?enum /.test(referencedTypes.get(name) ?? '')
+            ? `Type.Literal(Enum${name}.${member})`
+            : match
+        )
+      } catch (error) {
+        // Not every result type can be converted to TypeBox. Without a
+        // schema, the route's results aren't checked in development, so
+        // the user is told.
+        debug(
+          `Response schema of route "${routeName}" could not be generated:`,
+          error
+        )
+        emit({
+          type: 'warning',
+          message: `Route "${routeName}" has a result type that can't be converted to a schema, so its results won't be validated or mocked`,
+        })
+        return ''
+      }
+    }
+
     const processHttpRoute = async (
       { name, fileName, description }: AnalyzedRoute,
       route: ResolvedHttpRoute
     ) => {
+      const routeVersions = apiVersions.filter(version =>
+        isRouteActive(route, version || options.versionPrefix)
+      )
+      if (!routeVersions.length) {
+        return
+      }
+
+      const rawDescription = description
       if (description) {
         description = `/**\n${description.replace(/^/gm, ' * ')}\n */\n`
       }
@@ -281,7 +435,13 @@ export default (rawOptions: Options) =>
           )
         : ''
 
-      collectValidatedStringFormats(pathSchema + requestSchema)
+      // Response objects are never validated.
+      const responseSchema =
+        route.format !== 'response'
+          ? await generateResponseSchema(name, route.resultType)
+          : ''
+
+      collectValidatedStringFormats(pathSchema + requestSchema + responseSchema)
 
       const handlerPath = resolveImportPath(
         options.serverOutFile,
@@ -296,20 +456,37 @@ export default (rawOptions: Options) =>
         pathParams.length && `pathParams: ${JSON.stringify(pathParams)}`,
       ]
 
-      const serverPathname =
+      const routePathname =
         route.pathname[0] === '/' ? route.pathname : `/${route.pathname}`
 
-      const serverProperties = sift([
-        `path: "${serverPathname}"`,
-        ...sharedProperties,
-        `name: "${name}"`,
-        `import: () => import(${JSON.stringify(handlerPath)})`,
-        `format: "${route.format}"`,
-        pathSchema && `pathSchema: ${pathSchema}`,
-        requestSchema && `requestSchema: ${requestSchema}`,
-      ])
-
-      serverDefinitions.push(`{${serverProperties.join(', ')}}`)
+      if (options.lockFile && routeVersions.includes(latestVersion)) {
+        const contractPath = options.versionPrefix
+          ? routePathname.slice(options.versionPrefix.length + 1)
+          : routePathname
+
+        routeContracts.push([
+          name,
+          () => ({
+            method: route.method,
+            path: contractPath,
+            format: route.format,
+            pathParams: pathSchema
+              ? evaluateSchema(pathSchema)
+              : {
+                  type: 'object',
+                  properties: Object.fromEntries(
+                    pathParams.map(name => [name, { type: 'string' }])
+                  ),
+                  required: pathParams,
+                  additionalProperties: false,
+                },
+            request: requestSchema
+              ? evaluateSchema(requestSchema)
+              : { type: 'object', properties: {}, additionalProperties: false },
+            result: responseSchema ? evaluateSchema(responseSchema) : {},
+          }),
+        ])
+      }
 
       const pathParamsType = resolveObjectType(route.pathParams)
       const searchParamsType = bodylessMethods.has(route.method)
@@ -335,37 +512,90 @@ export default (rawOptions: Options) =>
         searchParamsType !== unknownType ||
         requestBodyType !== unknownType
 
-      let clientReturn = route.resultType
-      if (route.format === 'json-seq') {
-        clientTypeImports.add('ResponseStream')
+      const revivedResult = options.reviveResults
+        ? route.revivedResult
+        : undefined
+
+      const streamed = route.format === 'json-seq' || route.format === 'sse'
+
+      let clientReturn = revivedResult?.type ?? route.resultType
+      if (streamed) {
         clientReturn = `ResponseStream<${clientReturn}>`
       } else {
         clientReturn = `Promise<${clientReturn}>`
       }
 
-      const clientPathname = route.pathname.replace(/^\//, '')
+      for (const version of routeVersions) {
+        const serverPathname = version
+          ? `/${version}${routePathname}`
+          : routePathname
 
-      const clientProperties = sift([
-        `path: "${clientPathname}"`,
-        ...sharedProperties,
-        `arity: ${clientParamsExist ? 2 : 1}`,
-        `format: ${
-          // The "JSON sequence" format is imported, rather than being
-          // included by default, so we use an identifier here.
-          route.format === 'json-seq'
-            ? camel(route.format)
-            : `"${route.format}"`
-        }`,
-      ])
+        const serverProperties = sift([
+          `path: "${serverPathname}"`,
+          ...sharedProperties,
+          `name: "${name}"`,
+          `import: () => import(${JSON.stringify(handlerPath)})`,
+          `format: "${route.format}"`,
+          pathSchema && `pathSchema: ${pathSchema}`,
+          requestSchema && `requestSchema: ${requestSchema}`,
+          responseSchema && `responseSchema: ${responseSchema}`,
+        ])
+
+        serverDefinitions.push(`{${serverProperties.join(', ')}}`)
+
+        if (options.openApiOutFile) {
+          openApiRoutes.push({
+            // Operation IDs must be unique across versions.
+            name: version ? `${version}.${name}` : name,
+            description: rawDescription,
+            method: route.method,
+            pathname: serverPathname,
+            format: route.format,
+            pathSchema,
+            requestSchema,
+            responseSchema,
+          })
+        }
 
-      const [methodName, scopeName = ''] = name.split('.').reverse()
-      const scopeDefinitions = (clientDefinitions[scopeName] ??= [])
+        const clientModule = clientModules.get(version)!
 
-      clientFormats.add(route.format)
-      scopeDefinitions.push(
-        (description || '') +
-          `${methodName}: {${clientProperties.join(', ')}} as Route<(${clientArgs.join(', ')}) => ${clientReturn}>`
-      )
+        if (options.mocksOutFile && responseSchema) {
+          clientModule.mockRoutes.push({
+            name,
+            responseSchema,
+            reviver: route.revivedResult?.reviver,
+            streamed,
+          })
+        }
+
+        const clientProperties = sift([
+          `path: "${serverPathname.slice(1)}"`,
+          ...sharedProperties,
+          `arity: ${clientParamsExist ? 2 : 1}`,
+          `format: ${
+            // Streaming formats are imported, rather than being included by
+            // default, so we use an identifier here.
+            streamed ? camel(route.format) : `"${route.format}"`
+          }`,
+          revivedResult && `revive: ${JSON.stringify(revivedResult.reviver)}`,
+        ])
+
+        if (streamed) {
+          clientModule.typeImports.add('ResponseStream')
+        }
+        if (route.errorType) {
+          clientModule.typeImports.add('HTTPError')
+        }
+        clientModule.formats.add(route.format)
+        addClientDefinition(
+          clientModule,
+          version,
+          name,
+          methodName =>
+            (description || '') +
+            `${methodName}: {${clientProperties.join(', ')}} as Route<(${clientArgs.join(', ')}) => ${clientReturn}${route.errorType ? `, ${route.errorType}` : ''}>`
+        )
+      }
     }
 
     const processWsRoute = async (
@@ -398,7 +628,24 @@ export default (rawOptions: Options) =>
         ]).join(', ')}}`
       )
 
-      clientProtocols.add('websocket')
+      // WebSocket results are never validated, so this is only needed for
+      // mocks and the lockfile.
+      const responseSchema =
+        (options.mocksOutFile || options.lockFile) && route.pattern !== 'n'
+          ? await generateResponseSchema(name, route.resultType)
+          : ''
+
+      if (options.lockFile) {
+        routeContracts.push([
+          name,
+          () => ({
+            pattern: route.pattern,
+            request: requestSchema ? evaluateSchema(requestSchema) : {},
+            result: responseSchema ? evaluateSchema(responseSchema) : {},
+          }),
+        ])
+      }
+
       const clientProperties = [
         `protocol: websocket`,
         `pattern: "${route.pattern}"`,
@@ -415,14 +662,55 @@ export default (rawOptions: Options) =>
             ? `Promise<${route.resultType}>`
             : `ReadableStream<${route.resultType}>`
 
-      const [methodName, scopeName = ''] = name.split('.').reverse()
-      const scopeDefinitions = (clientDefinitions[scopeName] ??= [])
+      // WebSocket routes are served by every version.
+      for (const [version, clientModule] of clientModules) {
+        if (options.mocksOutFile && responseSchema) {
+          clientModule.mockRoutes.push({
+            name,
+            responseSchema,
+            streamed: route.pattern === 's',
+          })
+        }
 
-      clientTypeImports.add('ws')
-      scopeDefinitions.push(
-        (description || '') +
-          `${methodName}: {${clientProperties.join(', ')}} as ws.Route<(${clientArgs.join(', ')}) => ${clientReturn}>`
-      )
+        clientModule.protocols.add('websocket')
+        clientModule.typeImports.add('ws')
+        addClientDefinition(
+          clientModule,
+          version,
+          name,
+          methodName =>
+            (description || '') +
+            `${methodName}: {${clientProperties.join(', ')}} as ws.Route<(${clientArgs.join(', ')}) => ${clientReturn}>`
+        )
+      }
+    }
+
+    // Topics only exist in the client definitions, since the server imports
+    // them directly from the route modules.
+    const processWsTopic = (
+      { name, description }: AnalyzedRoute,
+      topic: ResolvedWsTopic
+    ) => {
+      if (description) {
+        description = `/**\n${description.replace(/^/gm, ' * ')}\n */\n`
+      }
+
+      if (options.lockFile) {
+        routeContracts.push([name, () => ({ topic: topic.topic })])
+      }
+
+      for (const [version, clientModule] of clientModules) {
+        clientModule.protocols.add('websocket')
+        clientModule.typeImports.add('ws')
+        addClientDefinition(
+          clientModule,
+          version,
+          name,
+          methodName =>
+            (description || '') +
+            `${methodName}: {protocol: websocket, topic: ${JSON.stringify(topic.topic)}} as ws.Topic<${topic.dataType}>`
+        )
+      }
     }
 
     for (const route of routes) {
@@ -430,6 +718,8 @@ export default (rawOptions: Options) =>
         await processHttpRoute(route, route.resolvedHttpRoute)
       } else if (route.resolvedWsRoute) {
         await processWsRoute(route, route.resolvedWsRoute)
+      } else if (route.resolvedWsTopic) {
+        processWsTopic(route, route.resolvedWsTopic)
       }
     }
 
@@ -446,6 +736,10 @@ export default (rawOptions: Options) =>
       collectValidatedStringFormats(serverTypeAliases)
     }
 
+    let schemaEvaluator: ((code: string) => JSONSchema) | undefined
+    const evaluateSchema = (code: string) =>
+      (schemaEvaluator ??= createSchemaEvaluator(serverTypeAliases))(code)
+
     const writeServerDefinitions = (outFile: string) => {
       let imports = ''
       let sideEffects = ''
@@ -471,65 +765,197 @@ export default (rawOptions: Options) =>
         sideEffects.trimStart(),
         serverTypeAliases,
         `export default [${serverDefinitions.join(', ')}] as const`,
+        clientHandlers && renderClientHandlerTypes(clientHandlers),
       ]).join('\n\n')
 
       fs.write(outFile, content)
     }
 
-    const writeClientDefinitions = (outFile: string) => {
+    const writeClientDefinitions = (
+      outFile: string,
+      { definitions, typeImports, protocols, formats }: ClientModule
+    ) => {
       let imports = ''
 
       // Delete the two formats that are always available.
-      clientFormats.delete('json')
-      clientFormats.delete('response')
+      formats.delete('json')
+      formats.delete('response')
 
-      if (clientFormats.size > 0) {
+      if (formats.size > 0) {
         imports += Array.from(
-          clientFormats,
+          formats,
           format =>
             `\nimport ${camel(format)} from "${store.clientModuleId}/formats/${format}"`
         ).join('')
       }
 
-      if (clientProtocols.size > 0) {
+      if (protocols.size > 0) {
         imports += Array.from(
-          clientProtocols,
+          protocols,
           protocol =>
             `\nimport ${camel(protocol)} from "${store.clientModuleId}/protocols/${protocol}"`
         ).join('')
       }
 
       const content = sift([
-        `import type { ${[...clientTypeImports].sort().join(', ')} } from "${store.clientModuleId}"` +
+        `import type { ${[...typeImports].sort().join(', ')} } from "${store.clientModuleId}"` +
           imports,
         clientTypeAliases.replace(
           new RegExp(`\\s*&\\s*(${typeConstraints.join('|')})\\<.+?\\>`, 'g'),
           ''
         ),
-        ...Object.entries(clientDefinitions).map(
-          ([scopeName, methodDefinitions]) => {
-            const scopeDeclaration = scopeName
-              ? `const ${scopeName} =`
-              : `default`
+        ...Object.entries(definitions).map(([scopeName, methodDefinitions]) => {
+          const scopeDeclaration = scopeName
+            ? `const ${scopeName} =`
+            : `default`
 
-            return dedent`
+          return dedent`
               export ${scopeDeclaration} {
                 ${methodDefinitions.join(',\n\n')}
               }
             `
+        }),
+      ]).join('\n\n')
+
+      fs.write(outFile, content)
+    }
+
+    const writeOpenApiDocument = (outFile: string) => {
+      const packageJson = guard(
+        () =>
+          JSON.parse(fs.read(path.join(root, 'package.json'), 'utf8')) as {
+            name?: string
+            version?: string
           }
+      )
+
+      const document = createOpenApiDocument(openApiRoutes, serverTypeAliases, {
+        title: packageJson?.name ?? 'alien-rpc',
+        version: options.versionPrefix ?? packageJson?.version ?? '0.0.0',
+      })
+
+      fs.write(outFile, JSON.stringify(document, null, 2) + '\n')
+    }
+
+    const writeMocks = (outFile: string, mockRoutes: MockRoute[]) => {
+      const mockDefinitions: Record<string, string[]> = {}
+
+      for (const route of mockRoutes) {
+        const [methodName, scopeName = ''] = route.name.split('.').reverse()
+        const value = createMockValue(
+          evaluateSchema(route.responseSchema),
+          route.reviver
+        )
+
+        const scopeDefinitions = (mockDefinitions[scopeName] ??= [])
+
+        // Streamed routes are mocked with an array of their records.
+        scopeDefinitions.push(
+          `${methodName}: ${printMockValue(route.streamed ? [value] : value)}`
+        )
+      }
+
+      const content = Object.entries(mockDefinitions)
+        .map(([scopeName, methodDefinitions]) => {
+          const scopeDeclaration = scopeName
+            ? `const ${scopeName} =`
+            : `default`
+
+          return dedent`
+            export ${scopeDeclaration} {
+              ${methodDefinitions.join(',\n')}
+            }
+          `
+        })
+        .join('\n\n')
+
+      fs.write(outFile, content)
+    }
+
+    const checkLockFile = (lockFile: string) => {
+      const current: ContractLock = {
+        versionPrefix: options.versionPrefix ?? (latestVersion || null),
+        routes: Object.fromEntries(
+          routeContracts.map(([name, getContract]) => [name, getContract()])
         ),
+      }
+
+      const locked = guard(
+        () => JSON.parse(fs.read(lockFile, 'utf8')) as ContractLock
+      )
+      const changes = locked ? diffContracts(locked, current) : null
+      const versionChanged =
+        !!locked && locked.versionPrefix !== current.versionPrefix
+
+      emit({ type: 'contracts', lockFile, changes, versionChanged })
+
+      // Breaking changes are kept out of the lockfile until the version is
+      // bumped, so they're reported until then.
+      if (
+        !options.dryRun &&
+        (versionChanged || !changes?.some(change => change.breaking))
+      ) {
+        fs.write(lockFile, JSON.stringify(current, null, 2) + '\n')
+      }
+    }
+
+    // The server's `ctx.client` type is derived from the ClientHandlers
+    // interface, which is extended here.
+    const renderClientHandlerTypes = ({
+      handlers,
+      referencedTypes,
+    }: AnalyzedClientHandlers) => {
+      const methods = handlers.map(handler => {
+        const description = handler.description
+          ? `/**\n${handler.description.replace(/^/gm, ' * ')}\n */\n`
+          : ''
+        const params = handler.argumentNames.map(
+          (name, index) => `${name}: ${handler.argumentTypes[index]}`
+        )
+        return `${description}${handler.name}: (${params.join(', ')}) => ${handler.resultType}`
+      })
+
+      return sift([
+        Array.from(referencedTypes.values()).join('\n'),
+        dedent`
+          declare module "${store.serviceModuleId}" {
+            namespace ws {
+              interface ClientHandlers {
+                ${methods.join('\n')}
+              }
+            }
+          }
+        `,
       ]).join('\n\n')
+    }
 
-      fs.write(outFile, content)
+    if (options.lockFile) {
+      checkLockFile(options.lockFile)
+    }
+
+    // Only the lockfile is compared in a dry run.
+    if (options.dryRun) {
+      return
     }
 
     writeServerDefinitions(options.serverOutFile)
-    writeClientDefinitions(options.clientOutFile)
+
+    apiVersions.forEach((version, index) => {
+      const clientModule = clientModules.get(version)!
+      writeClientDefinitions(clientOutFiles[index], clientModule)
+
+      if (options.mocksOutFile) {
+        writeMocks(mocksOutFiles[index], clientModule.mockRoutes)
+      }
+    })
+
+    if (options.openApiOutFile) {
+      writeOpenApiDocument(options.openApiOutFile)
+    }
 
     if (!options.noFormat) {
       await formatly(
-        [options.serverOutFile, options.clientOutFile].map(file =>
+        [options.serverOutFile, ...clientOutFiles, ...mocksOutFiles].map(file =>
           path.relative(options.outDir, file)
         ),
         {
@@ -540,6 +966,50 @@ export default (rawOptions: Options) =>
     }
   })
 
+type MockRoute = {
+  name: string
+  responseSchema: string
+  reviver?: ResultReviver | undefined
+  streamed: boolean
+}
+
+/**
+ * The client definitions of one API version.
+ */
+type ClientModule = {
+  definitions: Record<string, string[]>
+  typeImports: Set<string>
+  protocols: Set<string>
+  formats: Set<string>
+  /** Used to warn about routes defined more than once. */
+  routeNames: Set<string>
+  /** Routes whose result can be mocked, in the order of the definitions. */
+  mockRoutes: MockRoute[]
+}
+
+/**
+ * Versions are compared with numeric collation, so `v10` comes after
+ * `v9` and dates are ordered as expected.
+ */
+function compareVersions(a: string, b: string) {
+  return a.localeCompare(b, 'en', { numeric: true })
+}
+
+function isRouteActive(route: ResolvedHttpRoute, version: string | undefined) {
+  return (
+    !version ||
+    ((!route.since || compareVersions(route.since, version) <= 0) &&
+      (!route.until || compareVersions(version, route.until) < 0))
+  )
+}
+
+/**
+ * Files of a specific version are written to a directory named after it.
+ */
+function getVersionedFile(file: string, version: string) {
+  return path.join(path.dirname(file), version, path.basename(file))
+}
+
 function isProjectInvalidated(store: Store, changes: FileChange[]) {
   return (
     !store.project ||
@@ -0,0 +1,93 @@
+import * as Type from '@sinclair/typebox/type'
+import { debug } from './debug.js'
+
+export type JSONSchema = Record<string, any>
+
+/**
+ * Evaluate TypeBox code into a JSON schema, with any non-JSON types (like
+ * `Type.Date`) replaced with their JSON representation.
+ */
+export function createSchemaEvaluator(typeAliases: string) {
+  const scope: Record<string, any> = Object.create(null)
+
+  // These stand in for the transforms of `@alien-rpc/service/typebox`,
+  // since only the encoded form is relevant to API consumers.
+  scope.NumberParam = Type.Number
+  scope.ArrayParam = Type.Array
+  scope.DateString = (options?: Type.DateOptions) =>
+    Type.String({ ...options, format: 'date-time' })
+
+  // The type aliases are evaluated one at a time, so a broken alias
+  // doesn't prevent the others from being used.
+  for (const match of typeAliases.matchAll(
+    /^export const (\w+) = ([\s\S]+?)(?=^export const |(?![\s\S]))/gm
+  )) {
+    const [, name, code] = match
+    try {
+      scope[name] = evaluate(code, scope)
+    } catch (error) {
+      debug(`[skip] Type alias "${name}" could not be evaluated:`, error)
+    }
+  }
+
+  return (code: string): JSONSchema => {
+    try {
+      return toJSONSchema(evaluate(code, scope))
+    } catch (error) {
+      // An empty schema allows any value, which is better than no document.
+      debug('Schema could not be evaluated, so any value is allowed:', code)
+      debug(error)
+      return {}
+    }
+  }
+}
+
+function evaluate(code: string, scope: Record<string, any>) {
+  const names = Object.keys(scope)
+  const evaluate = new Function(
+    'Type',
+    ...names,
+    `return (${code.trim().replace(/;$/, '')})`
+  )
+  return evaluate(Type, ...names.map(name => scope[name]))
+}
+
+function toJSONSchema(schema: JSONSchema): JSONSchema {
+  // Symbol keys (e.g. TypeBox's `Kind`) are removed by the JSON roundtrip.
+  return normalizeSchema(JSON.parse(JSON.stringify(schema)))
+}
+
+function normalizeSchema(schema: any): any {
+  if (Array.isArray(schema)) {
+    return schema.map(normalizeSchema)
+  }
+  if (!schema || typeof schema !== 'object') {
+    return schema
+  }
+  switch (schema.type) {
+    case 'Date':
+      return { type: 'string', format: 'date-time' }
+    case 'bigint':
+      return { type: 'string', pattern: '^-?\\d+$' }
+    case 'undefined':
+    case 'void':
+      return { not: {} }
+  }
+  const result: JSONSchema = {}
+  for (const key in schema) {
+    result[key] = normalizeSchema(schema[key])
+  }
+  // An `undefined` member only exists for optional properties, which
+  // the `required` array already describes.
+  if (Array.isArray(result.anyOf)) {
+    const members = result.anyOf.filter((member: JSONSchema) => !member.not)
+    if (members.length === 1) {
+      const { anyOf, ...rest } = result
+      return { ...rest, ...members[0] }
+    }
+    if (members.length) {
+      result.anyOf = members
+    }
+  }
+  return result
+}
@@ -0,0 +1,106 @@
+import type { JSONSchema } from './json-schema.js'
+import type { ResultReviver } from './project/result-reviver.js'
+
+/**
+ * Create the simplest value that matches a JSON schema. Defaults and
+ * constants are preferred, optional properties are omitted, and arrays
+ * are only as long as they need to be.
+ *
+ * References can't be resolved, so they become `null`.
+ *
+ * Date and bigint values are encoded as strings by the response schema,
+ * so the result's reviver (if any) is used to find them.
+ */
+export function createMockValue(
+  schema: JSONSchema,
+  reviver?: ResultReviver
+): unknown {
+  if (reviver === 'd') {
+    return new Date(0).toISOString()
+  }
+  if (reviver === 'b') {
+    return '0'
+  }
+  if ('default' in schema) {
+    return schema.default
+  }
+  if ('const' in schema) {
+    return schema.const
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum[0]
+  }
+  if (Array.isArray(schema.anyOf)) {
+    return createMockValue(schema.anyOf[0], reviver)
+  }
+  if (Array.isArray(schema.allOf)) {
+    return Object.assign(
+      {},
+      ...schema.allOf.map((member: JSONSchema) =>
+        createMockValue(member, reviver)
+      )
+    )
+  }
+  if (schema.not) {
+    return undefined
+  }
+  switch (schema.type) {
+    case 'string':
+      if (schema.format === 'date-time') {
+        return new Date(0).toISOString()
+      }
+      if (schema.pattern === '^-?\\d+$') {
+        return '0'
+      }
+      return ''
+    case 'number':
+    case 'integer':
+      if (schema.exclusiveMinimum !== undefined) {
+        return schema.exclusiveMinimum + 1
+      }
+      return schema.minimum ?? 0
+    case 'boolean':
+      return false
+    case 'null':
+      return null
+    case 'array':
+      if (Array.isArray(schema.items)) {
+        return schema.items.map((item: JSONSchema, index: number) =>
+          createMockValue(item, getChildReviver(reviver, String(index)))
+        )
+      }
+      return Array.from({ length: schema.minItems ?? 0 }, () =>
+        createMockValue(
+          schema.items ?? {},
+          Array.isArray(reviver) ? reviver[0] : undefined
+        )
+      )
+    case 'object': {
+      const value: Record<string, unknown> = {}
+      for (const key of schema.required ?? []) {
+        value[key] = createMockValue(
+          schema.properties?.[key] ?? {},
+          getChildReviver(reviver, key)
+        )
+      }
+      return value
+    }
+  }
+  if (schema.$ref) {
+    return null
+  }
+  return {}
+}
+
+function getChildReviver(reviver: ResultReviver | undefined, key: string) {
+  if (reviver && typeof reviver === 'object' && !Array.isArray(reviver)) {
+    return reviver[key] ?? reviver['*']
+  }
+}
+
+/**
+ * Print a mock value as JavaScript code.
+ */
+export function printMockValue(value: unknown) {
+  return value === undefined ? 'undefined' : JSON.stringify(value)
+}
@@ -0,0 +1,259 @@
+import { bodylessMethods } from '@alien-rpc/route'
+import type { RouteMethod, RouteResultFormat } from '@alien-rpc/route'
+import { parsePathParams } from 'pathic'
+import { createSchemaEvaluator, type JSONSchema } from './json-schema.js'
+
+export type OpenApiRoute = {
+  name: string
+  description: string | undefined
+  method: RouteMethod
+  pathname: string
+  format: RouteResultFormat
+  /**
+   * TypeBox code for the path parameters. When empty, every path parameter
+   * is a string.
+   */
+  pathSchema: string
+  /**
+   * TypeBox code for the search parameters (for bodyless methods) or the
+   * JSON request body.
+   */
+  requestSchema: string
+  /**
+   * TypeBox code for the JSON response (or each streamed record).
+   */
+  responseSchema: string
+}
+
+export type OpenApiInfo = {
+  title: string
+  version: string
+  description?: string
+}
+
+type OpenApiParameter = {
+  name: string
+  in: 'path' | 'query'
+  required: boolean
+  schema: JSONSchema
+  description?: string
+}
+
+type OpenApiOperation = {
+  operationId: string
+  summary?: string
+  description?: string
+  deprecated?: boolean
+  tags?: string[]
+  parameters?: OpenApiParameter[]
+  requestBody?: {
+    required: boolean
+    content: Record<string, { schema: JSONSchema }>
+  }
+  responses: Record<string, any>
+}
+
+export type OpenApiDocument = {
+  openapi: '3.1.0'
+  info: OpenApiInfo
+  paths: Record<
+    string,
+    Partial<Record<Lowercase<RouteMethod>, OpenApiOperation>>
+  >
+  components: {
+    schemas: Record<string, JSONSchema>
+    responses: Record<string, any>
+  }
+}
+
+/**
+ * Create an OpenAPI 3.1 document from the routes found by the generator.
+ * WebSocket routes are not included, since OpenAPI has no way to describe
+ * them.
+ *
+ * The `typeAliases` string is the TypeBox code emitted into the server
+ * file, which the route schemas may reference by name.
+ */
+export function createOpenApiDocument(
+  routes: readonly OpenApiRoute[],
+  typeAliases: string,
+  info: OpenApiInfo
+): OpenApiDocument {
+  const evaluateSchema = createSchemaEvaluator(typeAliases)
+
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    info,
+    paths: {},
+    components: {
+      schemas: {
+        ValidationError: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            path: { type: 'string' },
+            value: {},
+          },
+          required: ['message'],
+        },
+      },
+      responses: {
+        BadRequest: {
+          description: 'The request failed validation.',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/ValidationError' },
+            },
+          },
+        },
+      },
+    },
+  }
+
+  for (const route of routes) {
+    const pathParams = parsePathParams(route.pathname)
+    const parameters: OpenApiParameter[] = []
+
+    if (pathParams.length) {
+      const pathSchema = route.pathSchema
+        ? evaluateSchema(route.pathSchema)
+        : null
+      for (const name of pathParams) {
+        parameters.push({
+          name,
+          in: 'path',
+          required: true,
+          schema: pathSchema?.properties?.[name] ?? { type: 'string' },
+        })
+      }
+    }
+
+    const operation = { operationId: route.name } as OpenApiOperation
+    const responses: OpenApiOperation['responses'] = {}
+
+    const scopeName = route.name.split('.').at(-2)
+    if (scopeName) {
+      operation.tags = [scopeName]
+    }
+
+    if (route.description) {
+      // The first paragraph is used as the summary, unless it's a tag.
+      const [summary, ...paragraphs] = route.description.split(/\n\s*\n/)
+      if (summary[0] !== '@') {
+        operation.summary = summary.replace(/\n/g, ' ')
+      }
+      if (paragraphs.length || summary[0] === '@') {
+        operation.description = route.description
+      }
+      if (/^@deprecated\b/m.test(route.description)) {
+        operation.deprecated = true
+      }
+    }
+
+    if (route.requestSchema) {
+      const requestSchema = evaluateSchema(route.requestSchema)
+      if (bodylessMethods.has(route.method)) {
+        // Search parameters are encoded with json-qs, so each top-level
+        // property becomes a query parameter. Nested values use the json-qs
+        // syntax, which OpenAPI has no way to describe.
+        const properties: Record<string, JSONSchema> =
+          requestSchema.properties ?? {}
+        const required = new Set<string>(requestSchema.required ?? [])
+        for (const [name, schema] of Object.entries(properties)) {
+          if (pathParams.includes(name)) {
+            continue
+          }
+          const parameter: OpenApiParameter = {
+            name,
+            in: 'query',
+            required: required.has(name),
+            schema,
+          }
+          if (schema.type === 'object' || schema.type === 'array') {
+            parameter.description = 'Encoded with json-qs'
+          }
+          parameters.push(parameter)
+        }
+      } else {
+        operation.requestBody = {
+          required: true,
+          content: {
+            'application/json': { schema: requestSchema },
+          },
+        }
+      }
+    }
+
+    if (parameters.length) {
+      operation.parameters = parameters
+    }
+
+    if (route.format === 'response') {
+      responses.default = {
+        description: 'A response of any kind',
+      }
+    } else {
+      const responseSchema = route.responseSchema
+        ? evaluateSchema(route.responseSchema)
+        : null
+
+      if (route.format === 'json-seq') {
+        // The server sends an octet-stream (to prevent response buffering
+        // on iOS), with the real content type in a header.
+        responses['200'] = {
+          description:
+            'A JSON text sequence (RFC 7464), where each record matches the schema. It may end with a pagination record. The Content-Type is application/octet-stream, while the X-Content-Type header is application/json-seq.',
+          headers: {
+            'X-Content-Type': {
+              description: 'The actual content type of the response.',
+              schema: { type: 'string', const: 'application/json-seq' },
+            },
+          },
+          content: {
+            'application/octet-stream': {
+              schema: responseSchema ?? {},
+            },
+          },
+        }
+      } else if (route.format === 'sse') {
+        responses['200'] = {
+          description:
+            'A stream of server-sent events, where the data of each event is JSON matching the schema. The last event may be a pagination record.',
+          content: {
+            'text/event-stream': {
+              schema: responseSchema ?? {},
+            },
+          },
+        }
+      } else if (responseSchema && !responseSchema.not) {
+        responses['200'] = {
+          description: 'OK',
+          content: {
+            'application/json': { schema: responseSchema },
+          },
+        }
+      } else {
+        responses['200'] = {
+          description: 'OK',
+        }
+      }
+    }
+
+    if (route.pathSchema || route.requestSchema) {
+      responses['400'] = {
+        $ref: '#/components/responses/BadRequest',
+      }
+    }
+
+    operation.responses = responses
+
+    const openApiPath = route.pathname.replace(
+      /[:*](\w+)/g,
+      (_, name) => `{${name}}`
+    )
+    const pathItem = (document.paths[openApiPath] ??= {})
+    pathItem[route.method.toLowerCase() as Lowercase<RouteMethod>] = operation
+  }
+
+  return document
+}
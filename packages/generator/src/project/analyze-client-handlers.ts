@@ -0,0 +1,93 @@
+import type ts from 'typescript'
+import { debug } from '../debug.js'
+import { Project } from '../project.js'
+import { extractDescription } from './analyze-route.js'
+import { ReferencedTypes } from './type-printer.js'
+
+export type AnalyzedClientHandler = {
+  name: string
+  description: string | undefined
+  argumentNames: string[]
+  argumentTypes: string[]
+  resultType: string
+}
+
+export type AnalyzedClientHandlers = ReturnType<typeof analyzeClientHandlers>
+
+/**
+ * Find the functions exported by the `clientHandlersFile` module. The
+ * server can call these over the WebSocket connection.
+ */
+export function analyzeClientHandlers(
+  project: Project,
+  sourceFile: ts.SourceFile
+) {
+  const handlers: AnalyzedClientHandler[] = []
+  const referencedTypes: ReferencedTypes = new Map()
+
+  const typeChecker = project.getTypeChecker()
+  const ts = project.utils
+
+  const analyzeHandler = (
+    declaration: ts.FunctionDeclaration | ts.VariableDeclaration
+  ) => {
+    const symbol =
+      declaration.name && typeChecker.getSymbolAtLocation(declaration.name)
+    if (!symbol) {
+      return
+    }
+
+    const callSignatures = typeChecker
+      .getTypeOfSymbolAtLocation(symbol, declaration)
+      .getCallSignatures()
+
+    if (callSignatures.length !== 1) {
+      debug(`[skip] Client handler "${symbol.name}" is not a function`)
+      return
+    }
+
+    const [callSignature] = callSignatures
+    const argumentNames: string[] = []
+    const argumentTypes: string[] = []
+
+    for (const parameter of callSignature.getParameters()) {
+      const parameterDeclaration = parameter.valueDeclaration
+      const optional =
+        parameterDeclaration &&
+        ts.isParameter(parameterDeclaration) &&
+        typeChecker.isOptionalParameter(parameterDeclaration)
+
+      argumentNames.push(parameter.name + (optional ? '?' : ''))
+      argumentTypes.push(
+        project.printTypeLiteralToString(
+          typeChecker.getTypeOfSymbol(parameter),
+          referencedTypes
+        )
+      )
+    }
+
+    handlers.push({
+      name: symbol.name,
+      description: extractDescription(project, declaration),
+      argumentNames,
+      argumentTypes,
+      resultType: project.printTypeLiteralToString(
+        callSignature.getReturnType(),
+        referencedTypes
+      ),
+    })
+  }
+
+  ts.forEachChild(sourceFile, node => {
+    if (!ts.isExportedNode(node)) {
+      return // Only consider exported declarations.
+    }
+    if (ts.isFunctionDeclaration(node)) {
+      analyzeHandler(node)
+    } else if (ts.isVariableStatement(node)) {
+      node.declarationList.declarations.forEach(analyzeHandler)
+    }
+  })
+
+  return { handlers, referencedTypes }
+}
@@ -3,6 +3,7 @@ import { parsePathParams } from 'pathic'
 import type ts from 'typescript'
 import { debug } from '../debug.js'
 import { Project } from '../project.js'
+import { resolveResultReviver, ResultReviver } from './result-reviver.js'
 import { SupportingTypes } from './supporting-types.js'
 import { ReferencedTypes } from './type-printer.js'
 import { getArrayElementType, isAssignableTo } from './utils.js'
@@ -15,6 +16,33 @@ export type ResolvedHttpRoute = {
   pathname: string
   argumentTypes: string[]
   resultType: string
+  /**
+   * The stream format chosen with a `@format` tag in the route's JSDoc
+   * comment. Only exists for routes that return an async iterable.
+   */
+  streamFormat?: StreamFormat | undefined
+  /**
+   * Exists if the result contains `Date` or `bigint` values, which the
+   * client can revive when the `reviveResults` option is enabled.
+   */
+  revivedResult?: RevivedResult | undefined
+  /** The first API version that serves this route. */
+  since?: string | undefined
+  /** The first API version that no longer serves this route. */
+  until?: string | undefined
+  /**
+   * A union of `HTTPError` types, one for each error response that the
+   * route handler may throw. Only exists if the route declares them with
+   * its `throws` option or a `@throws` tag.
+   */
+  errorType?: string | undefined
+}
+
+export type StreamFormat = 'json-seq' | 'sse'
+
+export type RevivedResult = {
+  type: string
+  reviver: ResultReviver
 }
 
 export type ResolvedWsRoute = {
@@ -25,12 +53,19 @@ export type ResolvedWsRoute = {
   resultType: string
 }
 
+export type ResolvedWsTopic = {
+  protocol: 'ws'
+  topic: string
+  dataType: string
+}
+
 export type AnalyzedRoute = {
   name: string
   description: string | undefined
   fileName: string
   resolvedHttpRoute?: ResolvedHttpRoute | undefined
   resolvedWsRoute?: ResolvedWsRoute | undefined
+  resolvedWsTopic?: ResolvedWsTopic | undefined
 }
 
 export function analyzeRoute(
@@ -138,6 +173,23 @@ export function analyzeRoute(
     }
   }
 
+  if (isAssignableTo(typeChecker, routeType, types.wsTopic)) {
+    return {
+      name: routeName,
+      description: extractDescription(project, declaration),
+      fileName,
+      resolvedWsTopic: {
+        protocol: 'ws',
+        topic: resolveTopicName(project, declaration),
+        dataType: resolveClientResultType(
+          project,
+          typeChecker.getTypeOfPropertyOfType(routeType, '__clientResult'),
+          types
+        ),
+      },
+    }
+  }
+
   if (!isAssignableTo(typeChecker, routeType, types.RouteDefinition)) {
     return null
   }
@@ -203,6 +255,21 @@ export function analyzeRoute(
     throw new Error(`Route must have a string literal for its "path" property.`)
   }
 
+  const resolveVersion = (key: 'since' | 'until') => {
+    const version = typeChecker.getPropertyOfType(routeType, key)
+    if (version) {
+      try {
+        return JSON.parse(
+          project.printTypeLiteralToString(typeChecker.getTypeOfSymbol(version))
+        ) as string
+      } catch {
+        throw new Error(
+          `Route must have a string literal for its "${key}" property.`
+        )
+      }
+    }
+  }
+
   const callSignature = assertCallSignature(handler)
   const returnType = assertReturnType(callSignature)
   const resolvedArguments = resolveArguments(callSignature)
@@ -234,14 +301,21 @@ export function analyzeRoute(
     }
   }
 
+  const description = extractDescription(project, declaration)
+  const format = resolveResultFormat(project, declaration, returnType, types)
+
   return {
     fileName,
     name: routeName,
-    description: extractDescription(project, declaration),
+    description,
     resolvedHttpRoute: {
       protocol: 'http',
       pathParams: resolvedPathParams,
-      format: resolveResultFormat(project, declaration, returnType, types),
+      format,
+      streamFormat:
+        format === 'json-seq'
+          ? resolveStreamFormat(description, declaration)
+          : undefined,
       method: parsedMethod,
       pathname: resolvedPathname,
       argumentTypes: resolvedArguments.map(arg =>
@@ -252,13 +326,27 @@ export function analyzeRoute(
         typeChecker.getTypeOfPropertyOfType(routeType, '__clientResult'),
         types
       ),
+      revivedResult: resolveRevivedResult(
+        project,
+        typeChecker.getTypeOfPropertyOfType(routeType, '__revivedClientResult'),
+        types
+      ),
+      since: resolveVersion('since'),
+      until: resolveVersion('until'),
+      errorType: resolveErrorType(
+        project,
+        declaration,
+        routeType,
+        types,
+        referencedTypes
+      ),
     },
   }
 }
 
-function extractDescription(
+export function extractDescription(
   project: Project,
-  declaration: ts.VariableDeclaration
+  declaration: ts.VariableDeclaration | ts.FunctionDeclaration
 ) {
   const ts = project.utils
   const docs = ts.getJSDocCommentsAndTags(declaration)
@@ -281,6 +369,9 @@ function extractDescription(
                   (ts.isJSDocSeeTag(tag) && tag.name
                     ? (tag.name.name as ts.Identifier).text
                     : '') +
+                  (ts.isJSDocThrowsTag(tag) && tag.typeExpression
+                    ? `{${tag.typeExpression.type.getText()}} `
+                    : '') +
                   tagText
                 : '')
           })
@@ -325,6 +416,181 @@ function resolveClientResultType(
   return project.printTypeLiteralToString(type)
 }
 
+/**
+ * Get the client's error type from the error responses that a route
+ * declares with its `throws` option and the `@throws` tags of its JSDoc
+ * comment. Each error response becomes an `HTTPError` with the literal
+ * status and the JSON body of the response.
+ */
+function resolveErrorType(
+  project: Project,
+  declaration: ts.VariableDeclaration,
+  routeType: ts.Type,
+  types: SupportingTypes,
+  referencedTypes: ReferencedTypes
+): string | undefined {
+  const typeChecker = project.getTypeChecker()
+  const ts = project.utils
+
+  const thrownTypes: ts.Type[] = []
+  const addThrownTypes = (type: ts.Type) => {
+    thrownTypes.push(...(type.isUnion() ? type.types : [type]))
+  }
+
+  const throwsOption = typeChecker.getPropertyOfType(routeType, 'throws')
+  if (throwsOption) {
+    const type = typeChecker.getNonNullableType(
+      typeChecker.getTypeOfSymbol(throwsOption)
+    )
+    const elementTypes = typeChecker.isTupleType(type)
+      ? typeChecker.getTypeArguments(type as ts.TypeReference)
+      : typeChecker.isArrayType(type)
+        ? [getArrayElementType(type)]
+        : []
+
+    for (const elementType of elementTypes) {
+      for (const constructor of elementType.isUnion()
+        ? elementType.types
+        : [elementType]) {
+        for (const signature of constructor.getConstructSignatures()) {
+          addThrownTypes(signature.getReturnType())
+        }
+      }
+    }
+  }
+
+  for (const doc of ts.getJSDocCommentsAndTags(declaration)) {
+    const tags = ts.isJSDoc(doc) ? (doc.tags ?? []) : [doc]
+    for (const tag of tags) {
+      if (ts.isJSDocThrowsTag(tag) && tag.typeExpression) {
+        addThrownTypes(typeChecker.getTypeFromTypeNode(tag.typeExpression.type))
+      }
+    }
+  }
+
+  const errorTypes = new Set<string>()
+  for (const type of thrownTypes) {
+    // Only thrown responses are sent to the client as they are.
+    if (!isAssignableTo(typeChecker, type, types.Response)) {
+      debug(
+        `[skip] Thrown type "${typeChecker.typeToString(type)}" is not a response`
+      )
+      continue
+    }
+
+    const status = typeChecker.getPropertyOfType(type, 'status')
+    const statusType = status
+      ? project.printTypeLiteralToString(typeChecker.getTypeOfSymbol(status))
+      : 'number'
+
+    const body = isAssignableTo(typeChecker, type, types.JSONResponse)
+      ? typeChecker.getPropertyOfType(type, 'decodedBody')
+      : undefined
+    const bodyType = body
+      ? printErrorBody(
+          project,
+          typeChecker.getTypeOfSymbol(body),
+          referencedTypes
+        )
+      : 'undefined'
+
+    errorTypes.add(`HTTPError<${statusType}, ${bodyType}>`)
+  }
+
+  if (errorTypes.size > 0) {
+    return [...errorTypes].join(' | ')
+  }
+}
+
+/**
+ * Print the known properties of an error body. Index signatures are left
+ * out, since they don't help the client narrow the error.
+ */
+function printErrorBody(
+  project: Project,
+  type: ts.Type,
+  referencedTypes: ReferencedTypes
+) {
+  const typeChecker = project.getTypeChecker()
+  const ts = project.utils
+
+  const properties = typeChecker.getPropertiesOfType(type).map(property => {
+    const name = /^[a-z_$][\w$]*$/i.test(property.name)
+      ? property.name
+      : JSON.stringify(property.name)
+    const optional = property.flags & ts.SymbolFlags.Optional ? '?' : ''
+    const propertyType = project.printTypeLiteralToString(
+      typeChecker.getTypeOfSymbol(property),
+      referencedTypes
+    )
+    return `${name}${optional}: ${propertyType}`
+  })
+
+  return `{ ${properties.join('; ')} }`
+}
+
+/**
+ * The topic name is the first argument of the `ws.topic()` call.
+ */
+function resolveTopicName(
+  project: Project,
+  declaration: ts.VariableDeclaration
+): string {
+  const ts = project.utils
+  const initializer = declaration.initializer
+  if (initializer && ts.isCallExpression(initializer)) {
+    const [name] = initializer.arguments
+    if (name && ts.isStringLiteralLike(name)) {
+      return name.text
+    }
+  }
+  throw new Error(`Topic must have a string literal for its name.`)
+}
+
+function resolveStreamFormat(
+  description: string | undefined,
+  declaration: ts.VariableDeclaration
+): StreamFormat | undefined {
+  const match = description?.match(/^@format\s+(\S+)/m)
+  if (match) {
+    if (match[1] === 'json-seq' || match[1] === 'sse') {
+      return match[1]
+    }
+    throw new InvalidResponseTypeError(
+      `Unsupported stream format: ${match[1]}`,
+      declaration
+    )
+  }
+}
+
+function resolveRevivedResult(
+  project: Project,
+  type: ts.Type | undefined,
+  types: SupportingTypes
+): RevivedResult | undefined {
+  const typeChecker = project.getTypeChecker()
+  const ts = project.utils
+
+  if (!type || ts.isAnyType(type)) {
+    return
+  }
+  if (isAssignableTo(typeChecker, type, types.Response)) {
+    return
+  }
+  if (isAssignableTo(typeChecker, type, types.AsyncIterable)) {
+    const [yieldType] = typeChecker.getTypeArguments(type as ts.TypeReference)
+    return resolveRevivedResult(project, yieldType, types)
+  }
+
+  const reviver = resolveResultReviver(project, type)
+  if (reviver) {
+    return {
+      type: resolveClientResultType(project, type, types),
+      reviver,
+    }
+  }
+}
+
 function resolveWebSocketPattern(
   project: Project,
   declaration: ts.VariableDeclaration,
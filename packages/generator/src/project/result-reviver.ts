@@ -0,0 +1,141 @@
+import type ts from 'typescript'
+import type { Project } from '../project.js'
+import { getArrayElementType, getTupleElements } from './utils.js'
+
+/**
+ * Describes where `Date` and `bigint` values exist in a route result, so
+ * the client can revive them from their JSON representation. This must
+ * match the `Reviver` type of `@alien-rpc/client`.
+ *
+ * - `"d"`: An ISO date string, revived as a `Date`.
+ * - `"b"`: A bigint string, revived as a `bigint`.
+ * - An array with one reviver, applied to every element.
+ * - An object with a reviver for some of its properties. The `*` key
+ *   applies to all properties not explicitly listed.
+ */
+export type ResultReviver =
+  'd' | 'b' | [ResultReviver] | { [key: string]: ResultReviver }
+
+/**
+ * Find any `Date` or `bigint` types within a route's result type. Returns
+ * undefined if the result has nothing to revive.
+ *
+ * Recursive types and unions whose members can't be told apart at runtime
+ * (e.g. `Date | string`) are left alone, which is safe since the JSON
+ * representation is assignable to such types.
+ */
+export function resolveResultReviver(
+  project: Project,
+  type: ts.Type,
+  seen = new Set<ts.Type>()
+): ResultReviver | undefined {
+  const typeChecker = project.getTypeChecker()
+  const ts = project.utils
+
+  if (type.flags & ts.TypeFlags.BigIntLike) {
+    return 'b'
+  }
+  if (type.symbol?.name === 'Date' && ts.isLibSymbol(type.symbol)) {
+    return 'd'
+  }
+  if (seen.has(type)) {
+    return
+  }
+
+  seen.add(type)
+  try {
+    if (type.isUnion()) {
+      return resolveUnionReviver(project, type, seen)
+    }
+    if (typeChecker.isArrayType(type)) {
+      const reviver = resolveResultReviver(
+        project,
+        getArrayElementType(type),
+        seen
+      )
+      return reviver && [reviver]
+    }
+    if (ts.isObjectType(type)) {
+      const revivers: Record<string, ResultReviver> = {}
+      const properties = typeChecker.isTupleType(type)
+        ? Array.from(getTupleElements(type))
+        : typeChecker.getPropertiesOfType(type)
+
+      let found = false
+      for (const property of properties) {
+        const reviver = resolveResultReviver(
+          project,
+          typeChecker.getTypeOfSymbol(property),
+          seen
+        )
+        if (reviver) {
+          revivers[property.name] = reviver
+          found = true
+        }
+      }
+      for (const indexInfo of typeChecker.getIndexInfosOfType(type)) {
+        if (indexInfo.keyType.flags & ts.TypeFlags.String) {
+          const reviver = resolveResultReviver(project, indexInfo.type, seen)
+          if (reviver) {
+            revivers['*'] = reviver
+            found = true
+          }
+        }
+      }
+      return found ? revivers : undefined
+    }
+  } finally {
+    seen.delete(type)
+  }
+}
+
+function resolveUnionReviver(
+  project: Project,
+  type: ts.UnionType,
+  seen: Set<ts.Type>
+): ResultReviver | undefined {
+  const typeChecker = project.getTypeChecker()
+  const ts = project.utils
+
+  let result: ResultReviver | undefined
+  const unrevivedTypes: ts.Type[] = []
+
+  for (const member of type.types) {
+    if (member.flags & (ts.TypeFlags.Null | ts.TypeFlags.Undefined)) {
+      continue
+    }
+    const reviver = resolveResultReviver(project, member, seen)
+    if (!reviver) {
+      unrevivedTypes.push(member)
+    } else if (!result) {
+      result = reviver
+    } else if (JSON.stringify(result) !== JSON.stringify(reviver)) {
+      return
+    }
+  }
+
+  if (!result) {
+    return
+  }
+
+  // The reviver can't be used if it would affect another member of the
+  // union at runtime.
+  for (const member of unrevivedTypes) {
+    if (member.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+      return
+    }
+    if (typeof result === 'string') {
+      if (member.flags & ts.TypeFlags.StringLike) {
+        return
+      }
+    } else if (Array.isArray(result)) {
+      if (typeChecker.isArrayType(member) || typeChecker.isTupleType(member)) {
+        return
+      }
+    } else if (ts.isObjectType(member)) {
+      return
+    }
+  }
+
+  return result
+}
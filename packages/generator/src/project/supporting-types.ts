@@ -19,6 +19,7 @@ export function createSupportingTypes(
   const typeDeclarations = {
     AnyNonNull: '{}',
     AsyncIterable: 'AsyncIterable<any>',
+    JSONResponse: `import("${serviceModuleId}").JSONResponse<any>`,
     Promise: 'Promise<any>',
     Response: 'Response',
     RouteDefinition: `import("${serviceModuleId}").RouteDefinition`,
@@ -29,6 +30,7 @@ export function createSupportingTypes(
     wsRouteDefinition: `import("${serviceModuleId}").ws.RouteDefinition`,
     wsRouteResult: `import("${serviceModuleId}").ws.RouteResult`,
     wsRequestContext: `import("${serviceModuleId}").ws.RequestContext`,
+    wsTopic: `import("${serviceModuleId}").ws.Topic`,
   } as const
 
   type TypeValidator = (typeChecker: ts.TypeChecker, type: ts.Type) => void
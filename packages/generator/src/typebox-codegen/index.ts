@@ -139,11 +139,11 @@ function processSourceFile(
     return renderObjectLiteral(evaluateTagNodes(tagNodes))
   }
 
-  function* renderIndexSignature(node: ts.IndexSignatureDeclaration) {
+  function renderIndexSignature(node: ts.IndexSignatureDeclaration) {
     // Note: We ignore the key and just return the type. This is a mismatch
     // between object and record types. We'll have to address this in
     // TypeBox by unifying validation paths for objects and record types.
-    yield render(node.type)
+    return render(node.type)
   }
 
   function renderTypeProperties(members: ts.NodeArray<ts.TypeElement>): string {
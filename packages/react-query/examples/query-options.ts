@@ -0,0 +1,34 @@
+import { defineClient, type Route } from '@alien-rpc/client'
+import { getQueryKey, queryOptions } from '@alien-rpc/react-query'
+import { QueryClient } from '@tanstack/react-query'
+
+const routes = {
+  getPost: {
+    path: 'posts/:id',
+    method: 'GET',
+    pathParams: ['id'],
+    arity: 2,
+    format: 'json',
+  } as Route<(pathParams: { id: string }) => Promise<{ title: string }>>,
+}
+
+const client = defineClient(routes, {
+  prefixUrl: 'https://example.test/api/',
+  fetch: async request => {
+    const id = new URL(request.url).pathname.split('/').at(-1)
+
+    return new Response(JSON.stringify({ title: `Post ${id}` }), {
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+  },
+})
+
+const queryClient = new QueryClient()
+
+console.log(await queryClient.fetchQuery(queryOptions(client.getPost, '1')))
+
+await queryClient.invalidateQueries({
+  queryKey: getQueryKey(client.getPost),
+})
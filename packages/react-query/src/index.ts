@@ -0,0 +1,270 @@
+import {
+  getRouteFromFunction,
+  type RequestOptions,
+  type ResponseStream,
+  type RouteTypeInfo,
+} from '@alien-rpc/client'
+import {
+  infiniteQueryOptions as defineInfiniteQueryOptions,
+  queryOptions as defineQueryOptions,
+  type InfiniteData,
+  type QueryKey,
+  type UseInfiniteQueryOptions,
+  type UseMutationOptions,
+  type UseQueryOptions,
+} from '@tanstack/react-query'
+import { isString } from 'radashi'
+
+/**
+ * An HTTP route function of a client. The client's `errorMode` must be
+ * `"reject"` (the default), since queries and mutations fail by throwing.
+ */
+export type AnyRouteFunction = ((...args: any[]) => any) & RouteTypeInfo
+
+/**
+ * The params of a route function, or `void` if it has none.
+ */
+export type RouteParams<TFunction extends AnyRouteFunction> =
+  2 extends Parameters<TFunction>['length'] ? Parameters<TFunction>[0] : void
+
+/**
+ * The data of a route function. Streamed results are collected into an
+ * array.
+ */
+export type RouteData<TFunction extends AnyRouteFunction> =
+  ReturnType<TFunction> extends ResponseStream<infer TItem>
+    ? TItem[]
+    : Awaited<ReturnType<TFunction>>
+
+/**
+ * The arguments after the route function. Params come first, unless the
+ * route has none.
+ */
+type RouteArgs<
+  TFunction extends AnyRouteFunction,
+  TOptions,
+> = 2 extends Parameters<TFunction>['length']
+  ? undefined extends Parameters<TFunction>[0]
+    ? [params?: Parameters<TFunction>[0], options?: TOptions]
+    : [params: Parameters<TFunction>[0], options?: TOptions]
+  : [options?: TOptions]
+
+export type RouteQueryOptions<
+  TFunction extends AnyRouteFunction,
+  TData = RouteData<TFunction>,
+> = Omit<
+  UseQueryOptions<RouteData<TFunction>, Error, TData>,
+  'queryKey' | 'queryFn'
+>
+
+/**
+ * A page of a paginated route. Its `nextPage` and `previousPage` functions
+ * come from the page's `ResponseStream`.
+ */
+export type ResponsePage<TItem> = {
+  items: TItem[]
+  nextPage?: PageFunction<TItem>
+  previousPage?: PageFunction<TItem>
+}
+
+/**
+ * Fetch a page of a paginated route. Used as the page param of an
+ * infinite query, where `null` means the first page.
+ */
+export type PageFunction<TItem> = (
+  options?: RequestOptions
+) => ResponseStream<TItem>
+
+type PagedRouteFunction = AnyRouteFunction &
+  ((...args: any[]) => ResponseStream<any>)
+
+type RouteItem<TFunction extends PagedRouteFunction> =
+  ReturnType<TFunction> extends ResponseStream<infer TItem> ? TItem : never
+
+export type RouteInfiniteQueryOptions<
+  TFunction extends PagedRouteFunction,
+  TData = InfiniteData<
+    ResponsePage<RouteItem<TFunction>>,
+    PageFunction<RouteItem<TFunction>> | null
+  >,
+> = Omit<
+  UseInfiniteQueryOptions<
+    ResponsePage<RouteItem<TFunction>>,
+    Error,
+    TData,
+    QueryKey,
+    PageFunction<RouteItem<TFunction>> | null
+  >,
+  | 'queryKey'
+  | 'queryFn'
+  | 'initialPageParam'
+  | 'getNextPageParam'
+  | 'getPreviousPageParam'
+>
+
+export type RouteMutationOptions<
+  TFunction extends AnyRouteFunction,
+  TContext = unknown,
+> = Omit<
+  UseMutationOptions<
+    RouteData<TFunction>,
+    Error,
+    RouteParams<TFunction>,
+    TContext
+  >,
+  'mutationKey' | 'mutationFn'
+>
+
+/**
+ * Get the query key of a route. Without params, the key matches every
+ * query of the route, which is useful for invalidation.
+ *
+ * ```ts
+ * queryClient.invalidateQueries({ queryKey: getQueryKey(client.getPost) })
+ * ```
+ */
+export function getQueryKey(
+  routeFunction: AnyRouteFunction,
+  params?: unknown
+): QueryKey {
+  const { method, path } = getRouteFromFunction(routeFunction)
+  return params === undefined ? [method, path] : [method, path, params]
+}
+
+/**
+ * Create the options of a query that calls a route function. Streamed
+ * results are collected into an array.
+ *
+ * ```ts
+ * const { data } = useQuery(queryOptions(client.getPost, { id }))
+ * ```
+ */
+export function queryOptions<
+  TFunction extends AnyRouteFunction,
+  TData = RouteData<TFunction>,
+>(
+  routeFunction: TFunction,
+  ...args: RouteArgs<TFunction, RouteQueryOptions<TFunction, TData>>
+) {
+  const [params, options] = splitRouteArgs(routeFunction, args)
+
+  return defineQueryOptions<RouteData<TFunction>, Error, TData>({
+    ...(options as RouteQueryOptions<TFunction, TData>),
+    queryKey: getQueryKey(routeFunction, params),
+    queryFn: ({ signal }) => fetchRouteData(routeFunction, params, { signal }),
+  })
+}
+
+/**
+ * Create the options of an infinite query for a paginated route (one that
+ * returns `paginate()` links). Each page has the items of one
+ * `ResponseStream`, and the next and previous pages are fetched with its
+ * pagination links.
+ *
+ * ```ts
+ * const { data, fetchNextPage } = useInfiniteQuery(
+ *   infiniteQueryOptions(client.listPosts)
+ * )
+ * ```
+ */
+export function infiniteQueryOptions<
+  TFunction extends PagedRouteFunction,
+  TData = InfiniteData<
+    ResponsePage<RouteItem<TFunction>>,
+    PageFunction<RouteItem<TFunction>> | null
+  >,
+>(
+  routeFunction: TFunction,
+  ...args: RouteArgs<TFunction, RouteInfiniteQueryOptions<TFunction, TData>>
+) {
+  type TItem = RouteItem<TFunction>
+
+  const [params, options] = splitRouteArgs(routeFunction, args)
+
+  return defineInfiniteQueryOptions<
+    ResponsePage<TItem>,
+    Error,
+    TData,
+    QueryKey,
+    PageFunction<TItem> | null
+  >({
+    ...(options as RouteInfiniteQueryOptions<TFunction, TData>),
+    // Infinite queries have different data, so they need their own key.
+    queryKey: [...getQueryKey(routeFunction, params), 'infinite'],
+    queryFn: async ({ pageParam, signal }) => {
+      const stream: ResponseStream<TItem> = pageParam
+        ? pageParam({ signal })
+        : callRoute(routeFunction, params, { signal })
+
+      return {
+        items: await stream.toArray(),
+        // These exist once the stream has been consumed.
+        nextPage: stream.nextPage,
+        previousPage: stream.previousPage,
+      }
+    },
+    initialPageParam: null,
+    getNextPageParam: page => page.nextPage,
+    getPreviousPageParam: page => page.previousPage,
+  })
+}
+
+/**
+ * Create the options of a mutation that calls a route function. The
+ * mutation's variables are the route's params.
+ *
+ * ```ts
+ * const { mutate } = useMutation(mutationOptions(client.createPost))
+ * mutate({ title: 'Hello' })
+ * ```
+ */
+export function mutationOptions<
+  TFunction extends AnyRouteFunction,
+  TContext = unknown,
+>(
+  routeFunction: TFunction,
+  options?: RouteMutationOptions<TFunction, TContext>
+): UseMutationOptions<
+  RouteData<TFunction>,
+  Error,
+  RouteParams<TFunction>,
+  TContext
+> {
+  return {
+    ...options,
+    mutationKey: getQueryKey(routeFunction),
+    mutationFn: params => fetchRouteData(routeFunction, params, {}),
+  }
+}
+
+function splitRouteArgs(
+  routeFunction: AnyRouteFunction,
+  args: unknown[]
+): [params: unknown, options: object | undefined] {
+  return getRouteFromFunction(routeFunction).arity === 2
+    ? [args[0], args[1] as object | undefined]
+    : [undefined, args[0] as object | undefined]
+}
+
+function callRoute(
+  routeFunction: AnyRouteFunction,
+  params: unknown,
+  options: RequestOptions
+) {
+  return getRouteFromFunction(routeFunction).arity === 2
+    ? routeFunction(params, options)
+    : routeFunction(options)
+}
+
+async function fetchRouteData(
+  routeFunction: AnyRouteFunction,
+  params: unknown,
+  options: RequestOptions
+) {
+  const result = callRoute(routeFunction, params, options)
+
+  // Streaming formats are objects, while the others are strings.
+  return isString(getRouteFromFunction(routeFunction).format)
+    ? result
+    : (result as ResponseStream<unknown>).toArray()
+}
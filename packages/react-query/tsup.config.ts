@@ -0,0 +1,3 @@
+import { defineConfig } from '../../scripts/tsup-config'
+
+export default defineConfig(import.meta.url)
@@ -1,5 +1,5 @@
 export type RouteMethod = 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
 
-export type RouteResultFormat = 'json' | 'json-seq' | 'response'
+export type RouteResultFormat = 'json' | 'json-seq' | 'sse' | 'response'
 
 export const bodylessMethods = new Set<RouteMethod>(['GET', 'HEAD', 'DELETE'])
@@ -0,0 +1,158 @@
+import { bodylessMethods, type RouteMethod } from '@alien-rpc/route'
+import type { RequestContext } from 'alien-middleware'
+import { isArray, isString } from 'radashi'
+import { BadRequestError } from './response.js'
+
+/**
+ * The pathname of the batching endpoint, after the `prefix` is removed.
+ */
+export const batchPathname = '/_batch'
+
+/**
+ * The content types of call responses whose body is kept in the record.
+ */
+const jsonContentTypes = new Set([
+  'application/json',
+  'application/problem+json',
+])
+
+type BatchedCall = {
+  method: RouteMethod
+  /** Relative to the `prefix`, including the search string. */
+  path: string
+  /** The JSON request body. */
+  body?: unknown
+}
+
+/**
+ * Create a handler for batch requests, whose body is an array of route
+ * calls. Each call is handled like a request of its own (with the headers
+ * of the batch request), so a failed call doesn't affect the others.
+ *
+ * Results are streamed as a JSON text sequence in the order they finish.
+ * Each record has the `id` (the call's index), `status`, and JSON `body` of
+ * a call's response. Bodies other than `application/json` (like problem
+ * details) also have their `contentType` in the record.
+ */
+export function compileBatchHandler(
+  handleRoute: (ctx: RequestContext) => Promise<Response | undefined>,
+  { prefix = '/', limit }: { prefix?: string; limit: number }
+) {
+  return async (ctx: RequestContext): Promise<Response> => {
+    const calls: unknown = await ctx.request.json().catch(() => null)
+    if (!isArray(calls) || !calls.every(isBatchedCall)) {
+      return new BadRequestError({
+        message: 'Batch must be an array of route calls',
+      })
+    }
+    if (calls.length > limit) {
+      return new BadRequestError({
+        message: `Batch cannot have more than ${limit} calls`,
+      })
+    }
+
+    const encoder = new TextEncoder()
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        const settled = calls.map(async (call, id) => {
+          const [response, headers] = await handleCall(
+            ctx,
+            call,
+            prefix,
+            handleRoute
+          )
+
+          // Responders set the content type with `ctx.setHeader`, which
+          // takes precedence over the response's own headers.
+          const contentType =
+            headers.get('Content-Type') ?? response?.headers.get('Content-Type')
+          const body =
+            response && contentType && jsonContentTypes.has(contentType)
+              ? await response.text()
+              : ''
+
+          let record = `"id":${id},"status":${response?.status ?? 404}`
+          if (body) {
+            // The body is already JSON, so it's not parsed again.
+            record += `,"body":${body}`
+            if (contentType !== 'application/json') {
+              record += `,"contentType":${JSON.stringify(contentType)}`
+            }
+          }
+
+          controller.enqueue(encoder.encode(`\x1e{${record}}\n`))
+        })
+
+        void Promise.all(settled).then(
+          () => controller.close(),
+          error => controller.error(error)
+        )
+      },
+    })
+
+    // Don't use "application/json-seq" until it's been standardized. Set the
+    // content type to octet-stream to prevent response buffering on iOS.
+    ctx.setHeader('Content-Type', 'application/octet-stream')
+    ctx.setHeader('X-Content-Type', 'application/json-seq')
+
+    return new Response(stream)
+  }
+}
+
+async function handleCall(
+  ctx: RequestContext,
+  call: BatchedCall,
+  prefix: string,
+  handleRoute: (ctx: RequestContext) => Promise<Response | undefined>
+): Promise<[Response | undefined, Headers]> {
+  const headers = new Headers()
+
+  const requestHeaders = new Headers(ctx.request.headers)
+  requestHeaders.delete('Content-Length')
+  // Batch records have no headers, so a call can't be answered with 304.
+  requestHeaders.delete('If-None-Match')
+  requestHeaders.delete('If-Modified-Since')
+
+  const request = new Request(
+    new URL(call.path, new URL(prefix, ctx.request.url)),
+    {
+      method: call.method,
+      headers: requestHeaders,
+      body:
+        call.body !== undefined && !bodylessMethods.has(call.method)
+          ? JSON.stringify(call.body)
+          : undefined,
+      signal: ctx.request.signal,
+    }
+  )
+
+  // The call inherits from the batch's context, so any context provided
+  // by a middleware is kept. Its headers are only used to find the
+  // content type.
+  const callContext: RequestContext = Object.create(ctx, {
+    request: { value: request, enumerable: true },
+    url: {
+      value: new URL(call.path, new URL('/', ctx.request.url)),
+      enumerable: true,
+    },
+    setHeader: {
+      value(name: string, value: string) {
+        headers.set(name, value)
+      },
+      enumerable: true,
+    },
+  })
+
+  try {
+    return [await handleRoute(callContext), headers]
+  } catch (error) {
+    if (!process.env.TEST) {
+      console.error(error)
+    }
+    return [new Response(null, { status: 500 }), headers]
+  }
+}
+
+function isBatchedCall(call: any): call is BatchedCall {
+  return isString(call?.method) && isString(call?.path)
+}
@@ -5,12 +5,16 @@ import { TypeCompiler } from '@sinclair/typebox/compiler'
 import {
   Decode,
   TransformDecodeCheckError,
+  Value,
   ValueErrorType,
 } from '@sinclair/typebox/value'
 import { RequestContext } from 'alien-middleware'
+import { withCacheHeaders } from './conditional.js'
+import { firstLeafError } from './errorUtils.js'
 import { importRoute } from './internal/importRoute.js'
+import { stringifyJSON } from './json/stringify.js'
 import { supportedResponders } from './responders/index.js'
-import { Route, RouteDefinition, RouteHandler } from './types.js'
+import { Route, RouteDefinition, RouteHandler, RouteIterator } from './types.js'
 
 export type CompiledRoute = ReturnType<typeof compileRoute>
 
@@ -19,12 +23,45 @@ export type CompileRouteOptions = {
    * Whether to skip TypeBox type compilation.
    */
   noTypeCompiler?: boolean
+  /**
+   * Send errors as RFC 9457 problem details, with the
+   * `application/problem+json` content type. This applies to error
+   * responses (including thrown `Response` objects without a body), the
+   * `$error` record of streaming routes, and the errors of websocket
+   * routes (see `ws.compileRoutes`). The client turns them into a
+   * `ProblemError`.
+   *
+   * @default false
+   */
+  problemDetails?: boolean
+  /**
+   * When a request fails validation, describe only the first error or list
+   * every invalid value in an `errors` array, each with a `message`, a
+   * JSON pointer `path`, and the `value`. The client's `getFieldErrors`
+   * function turns either into a map of messages.
+   *
+   * @default "first"
+   */
+  validationErrors?: 'first' | 'all'
+  /**
+   * Compute a weak ETag from the body of each `json` route's response to a
+   * `GET` request, so a request whose `If-None-Match` header matches it
+   * gets a `304 Not Modified` response. Route handlers can provide their
+   * own ETag with `setCacheHeaders` either way.
+   *
+   * @default false
+   */
+  etag?: boolean
 }
 
 export function compileRoute(route: Route, options: CompileRouteOptions = {}) {
   const decodePathData = compilePathSchema(route, options)
   const decodeRequestData = compileRequestSchema(route, options)
-  const responder = supportedResponders[route.format]
+  const checkResponseData = compileResponseSchema(route, options)
+  const responder =
+    route.format === 'json'
+      ? withCacheHeaders(supportedResponders.json, options)
+      : supportedResponders[route.format]
 
   async function getHandlerArgs(
     params: {},
@@ -63,17 +100,25 @@ export function compileRoute(route: Route, options: CompileRouteOptions = {}) {
       args: Parameters<RouteHandler>,
       ctx: RequestContext
     ): Promise<Response> {
-      const def = await importRoute<RouteDefinition>(route)
-      if (def.middleware) {
-        return def.middleware.use(ctx => {
-          // Override the top-level context with middleware-provided
-          // context.
-          args[args.length - 1] = ctx
-
-          return responder(def, args, ctx)
-        })(ctx)
+      let def = await importRoute<RouteDefinition>(route)
+      if (checkResponseData) {
+        def = withResponseCheck(def, route.format, checkResponseData)
+      }
+      const response = def.middleware
+        ? await def.middleware.use(ctx => {
+            // Override the top-level context with middleware-provided
+            // context.
+            args[args.length - 1] = ctx
+
+            return responder(def, args, ctx, options)
+          })(ctx)
+        : await responder(def, args, ctx, options)
+
+      // A HEAD response has the headers of a GET response, but no body.
+      if (ctx.request.method === 'HEAD' && response.body) {
+        return new Response(null, response)
       }
-      return responder(def, args, ctx)
+      return response
     },
   }
 }
@@ -145,3 +190,80 @@ function compileRequestSchema(
     return decode(data)
   }
 }
+
+/**
+ * In development, handler results are checked against the response schema,
+ * so a route that returns data not matching its declared type fails loudly
+ * instead of sending the wrong data to the client.
+ */
+function compileResponseSchema(
+  route: Route,
+  options: CompileRouteOptions
+): ((value: unknown) => void) | null {
+  if (!route.responseSchema || process.env.NODE_ENV === 'production') {
+    return null
+  }
+
+  const schema = route.responseSchema
+  const compiled = options.noTypeCompiler ? null : TypeCompiler.Compile(schema)
+
+  return value => {
+    // The schema describes the JSON-encoded result (e.g. dates are strings),
+    // so the result is checked after a JSON roundtrip.
+    if (value !== undefined) {
+      value = JSON.parse(stringifyJSON(value)!)
+    }
+    const valid = compiled ? compiled.Check(value) : Value.Check(schema, value)
+    if (!valid) {
+      const error = compiled
+        ? compiled.Errors(value).First()
+        : Value.Errors(schema, value).First()
+
+      const { message, path } = firstLeafError(error!)
+      throw new Error(
+        `Route "${route.name}" returned an invalid response: ${message}` +
+          (path ? ` (at ${path})` : '')
+      )
+    }
+  }
+}
+
+function withResponseCheck(
+  def: RouteDefinition,
+  format: Route['format'],
+  check: (value: unknown) => void
+): RouteDefinition {
+  const { handler } = def
+  return {
+    ...def,
+    handler(...args) {
+      if (format === 'json-seq' || format === 'sse') {
+        return checkIteratorValues(handler.apply(this, args), check)
+      }
+      return Promise.resolve(handler.apply(this, args)).then(result => {
+        check(result)
+        return result
+      })
+    },
+  }
+}
+
+async function* checkIteratorValues(
+  iterator: RouteIterator,
+  check: (value: unknown) => void
+) {
+  try {
+    while (true) {
+      const iteration = await iterator.next()
+      if (iteration.done) {
+        // Pagination links are not part of the response schema.
+        return iteration.value
+      }
+      check(iteration.value)
+      yield iteration.value
+    }
+  } finally {
+    // Let the handler clean up when the stream is cancelled.
+    await iterator.return?.()
+  }
+}
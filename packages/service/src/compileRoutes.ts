@@ -1,8 +1,8 @@
 import type { RouteMethod } from '@alien-rpc/route'
-import type { ValueError } from '@sinclair/typebox/errors'
 import type { RequestContext } from 'alien-middleware'
 import { compilePaths } from 'pathic'
 import { mapValues } from 'radashi'
+import { batchPathname, compileBatchHandler } from './batch.js'
 import {
   type CompiledRoute,
   compileRoute,
@@ -12,16 +12,22 @@ import {
   allowOriginAndCredentials,
   compilePreflightHandler,
   type CorsConfig,
+  setResponseCorsHeaders,
 } from './cors.js'
 import {
-  firstLeafError,
   getErrorFromResponse,
   getStackTrace,
+  getValidationDetails,
   isDecodeCheckError,
   isDecodeError,
 } from './errorUtils.js'
-import { JSONCodable } from './json/types.js'
-import { BadRequestError, InternalServerError } from './response.js'
+import { toProblemResponse } from './problem.js'
+import {
+  BadRequestError,
+  InternalServerError,
+  MethodNotAllowedError,
+  NotFoundError,
+} from './response.js'
 import type { Route, RouteList } from './types.js'
 import { isWebSocketRoute } from './websocket.js'
 
@@ -38,6 +44,32 @@ export interface CompileRoutesOptions extends CompileRouteOptions {
    */
   prefix?: string
   cors?: CorsConfig
+  /**
+   * Accept batched route calls at `POST /_batch` (after the prefix), which
+   * the client sends when its `batch` option is enabled. Each call runs
+   * through its route's middlewares and validation, and the results are
+   * streamed back as they finish.
+   *
+   * @default false
+   */
+  batch?: boolean
+  /**
+   * The maximum number of calls in a batch. Larger batches are rejected.
+   * This should match the client's `batchLimit` option.
+   *
+   * @default 20
+   */
+  batchLimit?: number
+  /**
+   * When false, requests that no route matches are answered, instead of
+   * being left to the next handler. If the path is served by other
+   * methods, the response is `405 Method Not Allowed` with an `Allow`
+   * header. Otherwise, it's a JSON `404 Not Found` response. Requests
+   * outside the `prefix` are still left to the next handler.
+   *
+   * @default true
+   */
+  fallthrough?: boolean
 }
 
 export function compileRoutes(
@@ -49,22 +81,78 @@ export function compileRoutes(
     options
   )
 
+  const getAllowedMethods = (pathname: string) => {
+    const allowedMethods = new Set<string>()
+    if (options.batch && pathname === batchPathname) {
+      allowedMethods.add('POST')
+    }
+    for (const [method, matchRoute] of Object.entries(routesByMethod)) {
+      matchRoute(pathname, () => {
+        allowedMethods.add(method)
+        return true
+      })
+    }
+    return allowedMethods
+  }
+
   // Browsers send an OPTIONS request as a preflight request for a CORS
   // request. This handler will respond with Access-Control-Allow headers
   // if matching routes are found.
   const handlePreflightRequest = compilePreflightHandler(
     options.cors || {},
-    ({ url }) => {
-      const allowedMethods = new Set<string>()
-      for (const matchRoute of Object.values(routesByMethod)) {
-        matchRoute(url.pathname, route => {
-          allowedMethods.add(route.method)
-          return true
+    ({ url }) => getAllowedMethods(url.pathname)
+  )
+
+  const handleUnmatchedRequest = (ctx: RequestContext) => {
+    const allowedMethods = getAllowedMethods(ctx.url.pathname)
+    const response = allowedMethods.size
+      ? new MethodNotAllowedError({
+          Allow: [...allowedMethods].join(', '),
         })
-      }
-      return allowedMethods
+      : new NotFoundError()
+    return options.problemDetails ? toProblemResponse(response) : response
+  }
+
+  const handleRoute = async (
+    ctx: RequestContext
+  ): Promise<Response | undefined> => {
+    const matchRoute = routesByMethod[ctx.request.method as RouteMethod]
+    if (!matchRoute) {
+      return
     }
-  )
+
+    let step = RequestStep.Match as RequestStep
+
+    try {
+      return await matchRoute(ctx.url.pathname, async (route, params) => {
+        if (process.env.NODE_ENV !== 'production') {
+          ctx.setHeader('X-Route-Name', route.name)
+        }
+
+        step = RequestStep.Validate
+        const args = await route.getHandlerArgs(params, ctx)
+
+        step = RequestStep.Respond
+        return await route.responder(args, ctx)
+      })
+    } catch (error: any) {
+      const response = handleRouteError(error, step, options)
+      return options.problemDetails ? toProblemResponse(response) : response
+    }
+  }
+
+  const handleRequest =
+    options.fallthrough === false
+      ? async (ctx: RequestContext) =>
+          (await handleRoute(ctx)) ?? handleUnmatchedRequest(ctx)
+      : handleRoute
+
+  const handleBatch = options.batch
+    ? compileBatchHandler(handleRequest, {
+        prefix: options.prefix,
+        limit: options.batchLimit ?? 20,
+      })
+    : null
 
   return async (ctx: RequestContext): Promise<Response | undefined> => {
     const { url, request } = ctx
@@ -80,36 +168,34 @@ export function compileRoutes(
       return handlePreflightRequest(ctx)
     }
 
-    const matchRoute = routesByMethod[request.method as RouteMethod]
-    if (!matchRoute) {
+    const isBatch =
+      handleBatch !== null &&
+      request.method === 'POST' &&
+      url.pathname === batchPathname
+
+    if (
+      !isBatch &&
+      !routesByMethod[request.method as RouteMethod] &&
+      options.fallthrough !== false
+    ) {
       return
     }
 
-    const corsHeaders = await allowOriginAndCredentials(ctx, options.cors ?? {})
+    const cors = options.cors ?? {}
+    const corsHeaders = await allowOriginAndCredentials(ctx, cors)
+    const allowedOrigin = corsHeaders['Access-Control-Allow-Origin']
     if (
-      corsHeaders['Access-Control-Allow-Origin'] !==
-      (ctx.request.headers.get('Origin') || '')
+      allowedOrigin !== '*' &&
+      allowedOrigin !== (ctx.request.headers.get('Origin') || '')
     ) {
       return new Response(null, { status: 403 })
     }
+    setResponseCorsHeaders(ctx, cors, corsHeaders)
 
-    let step = RequestStep.Match as RequestStep
-
-    try {
-      return await matchRoute(url.pathname, async (route, params) => {
-        if (process.env.NODE_ENV !== 'production') {
-          ctx.setHeader('X-Route-Name', route.name)
-        }
-
-        step = RequestStep.Validate
-        const args = await route.getHandlerArgs(params, ctx)
-
-        step = RequestStep.Respond
-        return await route.responder(args, ctx)
-      })
-    } catch (error: any) {
-      return handleRouteError(error, step)
+    if (isBatch) {
+      return handleBatch(ctx)
     }
+    return handleRequest(ctx)
   }
 }
 
@@ -143,7 +229,11 @@ function prepareRoutes(
   })
 }
 
-function handleRouteError(error: any, step: RequestStep) {
+function handleRouteError(
+  error: any,
+  step: RequestStep,
+  options: CompileRoutesOptions
+) {
   if (step === RequestStep.Respond) {
     if (error instanceof Response) {
       if (!process.env.TEST && process.env.NODE_ENV !== 'production') {
@@ -171,12 +261,9 @@ function handleRouteError(error: any, step: RequestStep) {
   if (step === RequestStep.Validate) {
     const checkError = isDecodeError(error) ? error.error : error
     if (isDecodeCheckError(checkError)) {
-      const { message, path, value } = firstLeafError(
-        checkError.error
-      ) as ValueError & {
-        value: JSONCodable
-      }
-      return new BadRequestError({ message, path, value })
+      return new BadRequestError(
+        getValidationDetails(checkError, options.validationErrors === 'all')
+      )
     }
   }
 
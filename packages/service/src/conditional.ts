@@ -0,0 +1,157 @@
+import type { RequestContext } from 'alien-middleware'
+import type { RouteResponder } from './types.js'
+
+export type CacheHeaders = {
+  /**
+   * An opaque identifier of the response's current version. It's quoted
+   * for you, unless it's already quoted or weak (i.e. `W/"…"`). When
+   * defined, it replaces the ETag computed by the `etag` option.
+   */
+  etag?: string
+  /**
+   * When the response's data was last changed. Requests with a matching
+   * `If-Modified-Since` header (and no `If-None-Match` header) get a
+   * `304 Not Modified` response.
+   */
+  lastModified?: Date | number
+  /**
+   * The `Cache-Control` header, like `"private, max-age=60"`.
+   */
+  cacheControl?: string
+}
+
+const pendingCacheHeaders = new WeakMap<Request, CacheHeaders>()
+
+/**
+ * Describe how the response of a `json` route can be cached. The ETag and
+ * last modified time are used to answer conditional `GET` requests with
+ * `304 Not Modified`, so the route handler can skip work that doesn't
+ * affect them.
+ *
+ * Calling this more than once merges the headers.
+ */
+export function setCacheHeaders(ctx: RequestContext, headers: CacheHeaders) {
+  pendingCacheHeaders.set(ctx.request, {
+    ...pendingCacheHeaders.get(ctx.request),
+    ...headers,
+  })
+}
+
+/**
+ * Wrap a responder, so its successful responses have the cache headers
+ * set by the route handler. Conditional `GET` and `HEAD` requests are
+ * answered with `304 Not Modified` when the ETag or last modified time
+ * still matches.
+ *
+ * @internal
+ */
+export function withCacheHeaders(
+  responder: RouteResponder,
+  options: { etag?: boolean }
+): RouteResponder {
+  return async (route, args, ctx, responderOptions) => {
+    let response = await responder(route, args, ctx, responderOptions)
+
+    const { request } = ctx
+    const headers = pendingCacheHeaders.get(request) ?? {}
+    pendingCacheHeaders.delete(request)
+
+    if (!response.ok) {
+      return response
+    }
+
+    let etag = headers.etag && quoteETag(headers.etag)
+    if (
+      !etag &&
+      options.etag &&
+      (request.method === 'GET' || request.method === 'HEAD') &&
+      response.body
+    ) {
+      const body = await response.text()
+      etag = await computeETag(body)
+      response = new Response(body, response)
+    }
+
+    const lastModified =
+      headers.lastModified !== undefined
+        ? new Date(headers.lastModified)
+        : undefined
+
+    if (etag) {
+      ctx.setHeader('ETag', etag)
+    }
+    if (lastModified) {
+      ctx.setHeader('Last-Modified', lastModified.toUTCString())
+    }
+    if (headers.cacheControl) {
+      ctx.setHeader('Cache-Control', headers.cacheControl)
+    }
+
+    if (
+      (request.method === 'GET' || request.method === 'HEAD') &&
+      isNotModified(request, etag, lastModified)
+    ) {
+      return new Response(null, { status: 304 })
+    }
+    return response
+  }
+}
+
+function quoteETag(etag: string) {
+  return etag.startsWith('"') || etag.startsWith('W/') ? etag : `"${etag}"`
+}
+
+/**
+ * Compute a weak ETag from the response body, since a different JSON
+ * encoding of the same data is considered equivalent.
+ */
+async function computeETag(body: string) {
+  const digest = await crypto.subtle.digest(
+    'SHA-1',
+    new TextEncoder().encode(body)
+  )
+  let hash = ''
+  for (const byte of new Uint8Array(digest)) {
+    hash += byte.toString(16).padStart(2, '0')
+  }
+  return `W/"${hash}"`
+}
+
+/**
+ * Check the request's preconditions. The `If-Modified-Since` header is
+ * ignored when `If-None-Match` is present.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9110#section-13.2.2
+ */
+function isNotModified(
+  request: Request,
+  etag: string | undefined,
+  lastModified: Date | undefined
+) {
+  const ifNoneMatch = request.headers.get('If-None-Match')
+  if (ifNoneMatch !== null) {
+    if (!etag) {
+      return false
+    }
+    if (ifNoneMatch.trim() === '*') {
+      return true
+    }
+    // ETags are compared weakly, so the W/ prefix is ignored.
+    const opaqueTag = etag.replace(/^W\//, '')
+    return ifNoneMatch
+      .split(',')
+      .some(tag => tag.trim().replace(/^W\//, '') === opaqueTag)
+  }
+
+  const ifModifiedSince = request.headers.get('If-Modified-Since')
+  if (ifModifiedSince !== null && lastModified) {
+    const since = Date.parse(ifModifiedSince)
+    // HTTP dates have a precision of one second.
+    return (
+      !Number.isNaN(since) &&
+      Math.floor(lastModified.getTime() / 1000) <= Math.floor(since / 1000)
+    )
+  }
+
+  return false
+}
@@ -1,7 +1,13 @@
 import { RequestContext } from 'alien-middleware'
-import { isString } from 'radashi'
+import { isFunction, isString } from 'radashi'
 import { Promisable } from './internal/types.js'
 
+/**
+ * A list of origins, where a `RegExp` matches any origin it tests true
+ * for.
+ */
+export type OriginList = RegExp | readonly (string | RegExp)[]
+
 export interface CorsConfig {
   /**
    * Trusted origins are allowed to send credentials.
@@ -9,7 +15,10 @@ export interface CorsConfig {
    * If neither this option nor `allowedOrigin` is set, all origins are
    * allowed.
    */
-  trustedOrigin?: string | ((ctx: RequestContext) => Promisable<string | false>)
+  trustedOrigin?:
+    | string
+    | OriginList
+    | ((ctx: RequestContext) => Promisable<string | false>)
 
   /**
    * Untrusted origins can make requests, but are not allowed to send
@@ -21,7 +30,37 @@ export interface CorsConfig {
   allowedOrigin?:
     | '*'
     | (string & {})
+    | OriginList
     | ((ctx: RequestContext) => Promisable<string | false>)
+
+  /**
+   * The request headers that cross-origin requests may send.
+   *
+   * By default, any headers proposed by a preflight request are allowed.
+   */
+  allowedHeaders?: readonly string[]
+
+  /**
+   * The response headers that cross-origin requests may read, besides
+   * the CORS-safelisted ones (like `Content-Type`).
+   */
+  exposedHeaders?: readonly string[]
+
+  /**
+   * How many seconds a browser may cache the result of a preflight
+   * request.
+   */
+  maxAge?: number
+
+  /**
+   * Allow websites on a public network to send requests to this server
+   * when it's on a private network, by answering Private Network Access
+   * preflight requests.
+   *
+   * @see https://wicg.github.io/private-network-access/
+   * @default false
+   */
+  allowPrivateNetwork?: boolean
 }
 
 export function compilePreflightHandler(
@@ -47,20 +86,80 @@ export function compilePreflightHandler(
         'Access-Control-Request-Headers'
       )
 
-      return new Response(null, {
-        headers: {
-          ...headers,
-          'Access-Control-Allow-Headers': proposedHeaders || '',
-          'Access-Control-Allow-Methods':
-            proposedMethod && allowedMethods.has(proposedMethod)
-              ? proposedMethod
-              : [...allowedMethods].join(', '),
-        },
-      })
+      const preflightHeaders: Record<string, string> = {
+        ...headers,
+        'Access-Control-Allow-Headers':
+          config.allowedHeaders?.join(', ') ?? (proposedHeaders || ''),
+        'Access-Control-Allow-Methods':
+          proposedMethod && allowedMethods.has(proposedMethod)
+            ? proposedMethod
+            : [...allowedMethods].join(', '),
+        Vary: 'Origin, Access-Control-Request-Method, Access-Control-Request-Headers',
+      }
+      if (config.maxAge !== undefined) {
+        preflightHeaders['Access-Control-Max-Age'] = String(config.maxAge)
+      }
+      if (
+        config.allowPrivateNetwork &&
+        request.headers.get('Access-Control-Request-Private-Network') === 'true'
+      ) {
+        preflightHeaders['Access-Control-Allow-Private-Network'] = 'true'
+      }
+
+      return new Response(null, { headers: preflightHeaders })
+    }
+  }
+}
+
+/**
+ * Set the CORS headers of an actual (non-preflight) response. The origin
+ * is added to the `Vary` header (once the response exists, so a `Vary`
+ * header set by the route is kept) unless every origin gets the same
+ * response.
+ */
+export function setResponseCorsHeaders(
+  ctx: RequestContext,
+  config: CorsConfig,
+  headers: Awaited<ReturnType<typeof allowOriginAndCredentials>>
+) {
+  const allowedOrigin = headers['Access-Control-Allow-Origin']
+  if (allowedOrigin !== '*') {
+    ctx.onResponse(response => {
+      appendVary(response.headers, 'Origin')
+    })
+  }
+  if (allowedOrigin && ctx.request.headers.has('Origin')) {
+    ctx.setHeader('Access-Control-Allow-Origin', allowedOrigin)
+    if (headers['Access-Control-Allow-Credentials'] === 'true') {
+      ctx.setHeader('Access-Control-Allow-Credentials', 'true')
+    }
+    if (config.exposedHeaders?.length) {
+      ctx.setHeader(
+        'Access-Control-Expose-Headers',
+        config.exposedHeaders.join(', ')
+      )
     }
   }
 }
 
+/**
+ * Add a request header name to the `Vary` header, unless it's already
+ * listed.
+ */
+function appendVary(headers: Headers, name: string) {
+  const vary = headers.get('Vary')
+  if (!vary) {
+    headers.set('Vary', name)
+  } else if (
+    vary !== '*' &&
+    !vary
+      .split(',')
+      .some(value => value.trim().toLowerCase() === name.toLowerCase())
+  ) {
+    headers.set('Vary', `${vary}, ${name}`)
+  }
+}
+
 /**
  * Generate the `Access-Control-Allow-Origin` and
  * `Access-Control-Allow-Credentials` headers based on the provided
@@ -77,13 +176,9 @@ export async function allowOriginAndCredentials(
 
   if (config.trustedOrigin !== undefined) {
     allowCredentials = true
-    allowedOrigin = isString(config.trustedOrigin)
-      ? config.trustedOrigin
-      : await config.trustedOrigin(ctx)
+    allowedOrigin = await resolveOrigin(config.trustedOrigin, ctx)
   } else if (config.allowedOrigin !== undefined) {
-    allowedOrigin = isString(config.allowedOrigin)
-      ? config.allowedOrigin
-      : await config.allowedOrigin(ctx)
+    allowedOrigin = await resolveOrigin(config.allowedOrigin, ctx)
   } else {
     allowedOrigin = proposedOrigin
   }
@@ -93,3 +188,29 @@ export async function allowOriginAndCredentials(
     'Access-Control-Allow-Origin': allowedOrigin || '',
   }
 }
+
+/**
+ * Resolve an origin option to the allowed origin. When the option is a
+ * list of origins, the request's origin is allowed if the list has it.
+ */
+function resolveOrigin(
+  option: NonNullable<CorsConfig['allowedOrigin']>,
+  ctx: RequestContext
+): Promisable<string | null | false> {
+  if (isString(option)) {
+    return option
+  }
+  if (isFunction(option)) {
+    return option(ctx)
+  }
+  const proposedOrigin = ctx.request.headers.get('Origin')
+  if (!proposedOrigin) {
+    return null
+  }
+  const origins = option instanceof RegExp ? [option] : option
+  return origins.some(origin =>
+    isString(origin) ? origin === proposedOrigin : origin.test(proposedOrigin)
+  )
+    ? proposedOrigin
+    : false
+}
@@ -0,0 +1,53 @@
+import type { RequestContext } from 'alien-middleware'
+import type { JSON } from './json/types.js'
+import { BadRequestError } from './response.js'
+
+/**
+ * The request header used by the client to resume a `json-seq` stream.
+ * Its value is the URI-encoded JSON of the last cursor received.
+ */
+export const streamCursorHeader = 'X-Stream-Cursor'
+
+const pendingCursors = new WeakMap<Request, { value: JSON }>()
+
+/**
+ * Get the cursor of a `json-seq` stream being resumed by the client, or
+ * undefined if the stream is starting from the beginning.
+ */
+export function getStreamCursor<T extends JSON = JSON>(
+  ctx: RequestContext
+): T | undefined {
+  const header = ctx.request.headers.get(streamCursorHeader)
+  if (header === null) {
+    return
+  }
+  try {
+    return JSON.parse(decodeURIComponent(header))
+  } catch {
+    throw new BadRequestError({ message: 'Invalid stream cursor' })
+  }
+}
+
+/**
+ * Mark the position of a `json-seq` stream, so the client can resume from
+ * it if the connection is lost. This should be called after yielding the
+ * last value that the cursor covers. The cursor is sent to the client
+ * before the next value (or the end of the stream).
+ *
+ * The route handler can use `getStreamCursor` to continue from where the
+ * last connection left off.
+ */
+export function setStreamCursor(ctx: RequestContext, cursor: JSON) {
+  pendingCursors.set(ctx.request, { value: cursor })
+}
+
+/**
+ * Get the cursor that was set since the last call, if any.
+ *
+ * @internal
+ */
+export function takeStreamCursor(request: Request) {
+  const cursor = pendingCursors.get(request)
+  pendingCursors.delete(request)
+  return cursor
+}
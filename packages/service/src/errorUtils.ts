@@ -2,7 +2,10 @@ import type { ValueError } from '@sinclair/typebox/errors'
 import {
   TransformDecodeCheckError,
   TransformDecodeError,
+  Value,
+  ValueErrorType,
 } from '@sinclair/typebox/value'
+import type { JSONCodable } from './json/types.js'
 import { JSONResponse } from './response.js'
 
 export type { ValueError }
@@ -27,6 +30,76 @@ export function firstLeafError(error: ValueError) {
   return error
 }
 
+/**
+ * Every leaf error of the first union member that has errors, or the
+ * error itself if it has no nested errors.
+ */
+function* leafErrors(error: ValueError): Generator<ValueError> {
+  for (const memberErrors of error.errors) {
+    let found = false
+    for (const suberror of memberErrors) {
+      found = true
+      yield* leafErrors(suberror)
+    }
+    if (found) {
+      return
+    }
+  }
+  yield error
+}
+
+export type ValidationIssue = {
+  message: string
+  /** A JSON pointer to the invalid value. */
+  path: string
+  value: JSONCodable
+}
+
+/**
+ * Describe why a value failed validation. The first error is described at
+ * the top level. With `all`, every invalid value is also listed in
+ * `errors`, which may have several errors for the same path (e.g. a string
+ * that's both too short and doesn't match its pattern).
+ */
+export function getValidationDetails(
+  error: TransformDecodeCheckError,
+  all?: boolean
+): ValidationIssue & { errors?: ValidationIssue[] } {
+  const issue = getValidationIssue(error.error)
+  if (!all) {
+    return issue
+  }
+
+  // TypeBox only keeps the first error, so the value is checked again.
+  const issues = new Map<string, ValidationIssue>()
+  const missingPaths = new Set<string>()
+  for (const valueError of Value.Errors(error.schema, error.value)) {
+    for (const leafError of leafErrors(valueError)) {
+      const { type, path } = leafError
+
+      // A missing property is also reported as having the wrong type.
+      if (missingPaths.has(path)) {
+        continue
+      }
+      if (type === ValueErrorType.ObjectRequiredProperty) {
+        missingPaths.add(path)
+      }
+
+      const issue = getValidationIssue(leafError)
+      issues.set(path + '\0' + issue.message, issue)
+    }
+  }
+  return {
+    ...issue,
+    errors: issues.size ? [...issues.values()] : [issue],
+  }
+}
+
+function getValidationIssue(error: ValueError): ValidationIssue {
+  const { message, path, value } = firstLeafError(error)
+  return { message, path, value: value as JSONCodable }
+}
+
 function* flat<T>(iterables: Iterable<T>[]) {
   for (const iterable of iterables) {
     yield* iterable
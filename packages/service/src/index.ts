@@ -1,8 +1,11 @@
 export type * as t from '../constraint.d.ts'
 export { compileRoute } from './compileRoute.js'
-export { compileRoutes } from './compileRoutes.js'
+export { compileRoutes, type CompileRoutesOptions } from './compileRoutes.js'
+export { setCacheHeaders, type CacheHeaders } from './conditional.js'
+export { getStreamCursor, setStreamCursor } from './cursor.js'
 export * from './json.js'
 export { paginate, type PaginationLinks } from './pagination.js'
+export { createMemoryPubSub, type PubSubAdapter } from './pubsub.js'
 export * from './response.js'
 export { route, type RouteBuilder, type RouteFactory } from './route.js'
 export { ws } from './websocket.js'
@@ -12,7 +15,9 @@ export type {
   MultiParamRouteHandler,
   RouteDefinition,
   RouteIterator,
+  RouteOptions,
   RouteResult,
+  RouteVersions,
   SingleParamRouteHandler,
 } from './types.js'
 
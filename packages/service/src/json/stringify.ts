@@ -0,0 +1,11 @@
+/**
+ * Like `JSON.stringify` but bigints are encoded as strings, so the client
+ * can revive them.
+ */
+export function stringifyJSON(value: unknown): string | undefined {
+  return JSON.stringify(value, replaceBigInt)
+}
+
+function replaceBigInt(_key: string, value: unknown) {
+  return typeof value === 'bigint' ? value.toString() : value
+}
@@ -17,6 +17,7 @@ export type JSONObjectCodable =
  */
 export type JSONCodable =
   | JSONPrimitive
+  | bigint
   | { [key: string]: JSONCodable | undefined }
   | { toJSON(): JSON }
   | readonly JSONCodable[]
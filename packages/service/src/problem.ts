@@ -0,0 +1,138 @@
+import { isError } from 'radashi'
+import {
+  getStackTrace,
+  getValidationDetails,
+  isDecodeCheckError,
+  isDecodeError,
+} from './errorUtils.js'
+import type { JSONCodable } from './json/types.js'
+import { JSONResponse, ProblemDetails, ProblemResponse } from './response.js'
+
+const statusTitles: Record<number, string> = {
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  402: 'Payment Required',
+  403: 'Forbidden',
+  404: 'Not Found',
+  405: 'Method Not Allowed',
+  406: 'Not Acceptable',
+  408: 'Request Timeout',
+  409: 'Conflict',
+  410: 'Gone',
+  411: 'Length Required',
+  412: 'Precondition Failed',
+  413: 'Content Too Large',
+  414: 'URI Too Long',
+  415: 'Unsupported Media Type',
+  416: 'Range Not Satisfiable',
+  417: 'Expectation Failed',
+  421: 'Misdirected Request',
+  422: 'Unprocessable Content',
+  423: 'Locked',
+  424: 'Failed Dependency',
+  425: 'Too Early',
+  426: 'Upgrade Required',
+  428: 'Precondition Required',
+  429: 'Too Many Requests',
+  431: 'Request Header Fields Too Large',
+  451: 'Unavailable For Legal Reasons',
+  500: 'Internal Server Error',
+  501: 'Not Implemented',
+  502: 'Bad Gateway',
+  503: 'Service Unavailable',
+  504: 'Gateway Timeout',
+}
+
+/**
+ * Get the HTTP status phrase of a status code.
+ */
+export function getStatusTitle(status: number) {
+  return statusTitles[status] ?? (status < 500 ? 'Client Error' : 'Error')
+}
+
+/**
+ * Create a problem details object from the status code and the JSON body
+ * of an error. The error's `message` becomes the `detail` member, and its
+ * other properties become extension members.
+ *
+ * @internal
+ */
+export function createProblemDetails(
+  status: number,
+  { message, ...extensions }: Record<string, JSONCodable | undefined> = {}
+): ProblemDetails {
+  return {
+    ...extensions,
+    type: 'about:blank',
+    title: getStatusTitle(status),
+    status,
+    detail: typeof message === 'string' ? message : undefined,
+  }
+}
+
+/**
+ * Convert an error response into a `ProblemResponse`. Responses with a
+ * non-JSON body and successful responses are returned as-is.
+ *
+ * @internal
+ */
+export function toProblemResponse(response: Response): Response {
+  if (
+    response.status < 400 ||
+    response instanceof ProblemResponse ||
+    (response.body && !(response instanceof JSONResponse))
+  ) {
+    return response
+  }
+  const problem = new ProblemResponse(
+    createProblemDetails(
+      response.status,
+      response instanceof JSONResponse ? response.decodedBody : undefined
+    )
+  )
+  response.headers.forEach((value, name) => {
+    if (name !== 'content-type') {
+      problem.headers.set(name, value)
+    }
+  })
+  return problem
+}
+
+/**
+ * Get the problem details of an error thrown by a streaming route or a
+ * websocket route. Stack traces are only included outside production.
+ *
+ * @internal
+ */
+export function getProblemDetails(
+  error: unknown,
+  options: { validationErrors?: 'first' | 'all' }
+): ProblemDetails {
+  if (error instanceof Response) {
+    return error instanceof ProblemResponse
+      ? error.decodedBody
+      : createProblemDetails(
+          error.status,
+          error instanceof JSONResponse ? error.decodedBody : undefined
+        )
+  }
+
+  const checkError = isDecodeError(error) ? error.error : error
+  if (isDecodeCheckError(checkError)) {
+    return createProblemDetails(400, {
+      ...getValidationDetails(checkError, options.validationErrors === 'all'),
+      stack:
+        process.env.NODE_ENV !== 'production'
+          ? getStackTrace(checkError)
+          : undefined,
+    })
+  }
+
+  return createProblemDetails(500, {
+    message: isError(error) ? error.message : String(error),
+    stack:
+      process.env.NODE_ENV !== 'production' && isError(error)
+        ? getStackTrace(error)
+        : undefined,
+  })
+}
@@ -0,0 +1,52 @@
+import type { Promisable } from './internal/types.js'
+
+/**
+ * Delivers messages published to a topic to every subscriber, possibly
+ * across server instances. Messages are JSON strings, so an adapter can
+ * forward them to a backend like Redis without decoding them.
+ *
+ * The default adapter is created with `createMemoryPubSub`.
+ */
+export interface PubSubAdapter {
+  /**
+   * Listen for messages published to a topic. Resolves with a function
+   * that removes the listener.
+   */
+  subscribe(
+    topic: string,
+    listener: (message: string) => void
+  ): Promisable<() => Promisable<void>>
+  publish(topic: string, message: string): Promisable<void>
+}
+
+/**
+ * Create a pub/sub adapter that only delivers messages within the current
+ * process.
+ */
+export function createMemoryPubSub(): PubSubAdapter {
+  const listenersByTopic = new Map<string, Set<(message: string) => void>>()
+
+  return {
+    subscribe(topic, listener) {
+      let listeners = listenersByTopic.get(topic)
+      if (!listeners) {
+        listeners = new Set()
+        listenersByTopic.set(topic, listeners)
+      }
+      listeners.add(listener)
+      return () => {
+        if (listeners.delete(listener) && listeners.size === 0) {
+          listenersByTopic.delete(topic)
+        }
+      }
+    },
+    publish(topic, message) {
+      const listeners = listenersByTopic.get(topic)
+      if (listeners) {
+        for (const listener of [...listeners]) {
+          listener(message)
+        }
+      }
+    },
+  }
+}
@@ -1,85 +1,65 @@
-import { getErrorFromResponse, getStackTrace } from '../errorUtils.js'
-import type { JSON } from '../json/types.js'
-import { resolvePaginationLink } from '../pagination.js'
-import type {
-  RouteDefinition,
-  RouteHandler,
-  RouteIterator,
-  RouteResponder,
-} from '../types.js'
-
-const responder: RouteResponder = (route, args, ctx) => {
-  const stream = ReadableStream.from(
-    generateJsonTextSequence(route, args, ctx.url)
-  )
+import type { CompileRouteOptions } from '../compileRoute.js'
+import { takeStreamCursor } from '../cursor.js'
+import { stringifyJSON } from '../json/stringify.js'
+import type { RouteDefinition, RouteHandler, RouteResponder } from '../types.js'
+import { generateRouteRecords } from './stream.js'
 
+const responder: RouteResponder = (route, args, ctx, options) => {
   // Don't use "application/json-seq" until it's been standardized. Set the
   // content type to octet-stream to prevent response buffering on iOS.
   ctx.setHeader('Content-Type', 'application/octet-stream')
   ctx.setHeader('X-Content-Type', 'application/json-seq')
 
+  // A HEAD request only needs the headers, so the route isn't called.
+  if (ctx.request.method === 'HEAD') {
+    return new Response(null)
+  }
+
+  const stream = ReadableStream.from(
+    generateJsonTextSequence(route, args, ctx.url, ctx.request, options)
+  )
+
   return new Response(stream)
 }
 
 export default responder
 
 /**
- * Convert a route iterator to a “JSON text sequence” generator.
+ * Convert a route iterator to a “JSON text sequence” generator. If the
+ * route sets a stream cursor, it's sent as a `{ $cursor }` record before
+ * the next value.
  *
  * @see https://datatracker.ietf.org/doc/html/rfc7464
  */
 async function* generateJsonTextSequence(
   route: RouteDefinition,
   args: Parameters<RouteHandler>,
-  url: URL
+  url: URL,
+  request: Request,
+  options: CompileRouteOptions
 ) {
   const encoder = new TextEncoder()
   const separator = new Uint8Array([0x1e]) // ASCII record separator
   const lineFeed = new Uint8Array([0x0a]) // ASCII line feed
 
-  let iterator: RouteIterator | undefined
-  let done: boolean | undefined
-  let value: JSON
-  do {
-    try {
-      iterator ||= route.handler.apply(route, args) as RouteIterator
-
-      const iteration = await iterator.next()
-      if (iteration.done) {
-        const links = iteration.value
-        if (!links) {
-          return
-        }
-
-        done = true
-        value = {
-          $prev: links.prev ? resolvePaginationLink(url, links.prev) : null,
-          $next: links.next ? resolvePaginationLink(url, links.next) : null,
-        }
-      } else {
-        value = iteration.value as any
-      }
-    } catch (error: any) {
-      if (error instanceof Response) {
-        error = getErrorFromResponse(error)
-      }
-      if (!process.env.TEST) {
-        console.error(error)
-      }
-      error = {
-        ...error,
-        message: error.message || 'An unknown error occurred',
-        stack:
-          process.env.NODE_ENV !== 'production'
-            ? '\n' + getStackTrace(error)
-            : undefined,
-      }
-      done = true
-      value = { $error: error }
-    }
-
+  const encodeRecord = function* (value: unknown) {
     yield separator
-    yield encoder.encode(JSON.stringify(value))
+    yield encoder.encode(stringifyJSON(value))
     yield lineFeed
-  } while (!done)
+  }
+
+  for await (const { value } of generateRouteRecords(
+    route,
+    args,
+    url,
+    options
+  )) {
+    // The cursor was set while the route produced this value, so it
+    // marks the position before it.
+    const cursor = takeStreamCursor(request)
+    if (cursor) {
+      yield* encodeRecord({ $cursor: cursor.value })
+    }
+    yield* encodeRecord(value)
+  }
 }
@@ -1,4 +1,5 @@
 import type { Promisable } from '../internal/types.js'
+import { stringifyJSON } from '../json/stringify.js'
 import type { JSONCodable } from '../json/types.js'
 import type { RouteResponder } from '../types.js'
 
@@ -8,13 +9,17 @@ const responder: RouteResponder = async (route, args, ctx) => {
     args
   )
 
-  if (ctx.request.method === 'HEAD') {
-    result = null
-  } else {
-    result = JSON.stringify(result)
+  result = stringifyJSON(result)
 
-    if (result !== undefined) {
-      ctx.setHeader('Content-Type', 'application/json')
+  if (result !== undefined) {
+    ctx.setHeader('Content-Type', 'application/json')
+
+    // The body of a HEAD response is removed, so its length is set here.
+    if (ctx.request.method === 'HEAD') {
+      ctx.setHeader(
+        'Content-Length',
+        String(new TextEncoder().encode(result).byteLength)
+      )
     }
   }
 
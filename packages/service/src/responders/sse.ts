@@ -0,0 +1,69 @@
+import type { CompileRouteOptions } from '../compileRoute.js'
+import { stringifyJSON } from '../json/stringify.js'
+import type { RouteDefinition, RouteHandler, RouteResponder } from '../types.js'
+import { generateRouteRecords } from './stream.js'
+
+const responder: RouteResponder = (route, args, ctx, options) => {
+  ctx.setHeader('Content-Type', 'text/event-stream')
+  ctx.setHeader('Cache-Control', 'no-cache')
+
+  // A HEAD request only needs the headers, so the route isn't called.
+  if (ctx.request.method === 'HEAD') {
+    return new Response(null)
+  }
+
+  const stream = ReadableStream.from(
+    generateEventStream(
+      route,
+      args,
+      ctx.url,
+      parseEventId(ctx.request.headers.get('Last-Event-ID')),
+      options
+    )
+  )
+
+  return new Response(stream)
+}
+
+export default responder
+
+/**
+ * Event IDs are the 1-based index of each value yielded by the route, so a
+ * client can resume the stream by sending the last ID it received.
+ */
+function parseEventId(lastEventId: string | null) {
+  return lastEventId && /^\d+$/.test(lastEventId) ? Number(lastEventId) : 0
+}
+
+/**
+ * Convert a route iterator to a “server-sent events” generator. Each value
+ * is sent as the `data` field of an event. When resuming from a
+ * `Last-Event-ID`, values up to that ID are produced by the route but not
+ * sent.
+ *
+ * @see https://html.spec.whatwg.org/multipage/server-sent-events.html
+ */
+async function* generateEventStream(
+  route: RouteDefinition,
+  args: Parameters<RouteHandler>,
+  url: URL,
+  lastEventId: number,
+  options: CompileRouteOptions
+) {
+  const encoder = new TextEncoder()
+
+  let eventId = 0
+  for await (const { value, done } of generateRouteRecords(
+    route,
+    args,
+    url,
+    options
+  )) {
+    // Pagination and error records have no ID, so they're never skipped.
+    if (done) {
+      yield encoder.encode(`data: ${stringifyJSON(value)}\n\n`)
+    } else if (++eventId > lastEventId) {
+      yield encoder.encode(`id: ${eventId}\ndata: ${stringifyJSON(value)}\n\n`)
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import type { CompileRouteOptions } from '../compileRoute.js'
+import { getErrorFromResponse, getStackTrace } from '../errorUtils.js'
+import type { JSON } from '../json/types.js'
+import { resolvePaginationLink } from '../pagination.js'
+import { getProblemDetails } from '../problem.js'
+import type { RouteDefinition, RouteHandler, RouteIterator } from '../types.js'
+
+export type RouteRecord = {
+  value: JSON
+  /**
+   * True for the pagination record or an error record, either of which
+   * ends the stream.
+   */
+  done: boolean
+}
+
+/**
+ * Iterate the values produced by a streaming route. If the route returns
+ * pagination links, they're yielded as a `{ $prev, $next }` record. If the
+ * route throws, the error is yielded as an `{ $error }` record.
+ */
+export async function* generateRouteRecords(
+  route: RouteDefinition,
+  args: Parameters<RouteHandler>,
+  url: URL,
+  options: CompileRouteOptions
+): AsyncGenerator<RouteRecord> {
+  let iterator: RouteIterator | undefined
+  let done = false
+  let value: JSON
+  do {
+    try {
+      iterator ||= route.handler.apply(route, args) as RouteIterator
+
+      const iteration = await iterator.next()
+      if (iteration.done) {
+        const links = iteration.value
+        if (!links) {
+          return
+        }
+
+        done = true
+        value = {
+          $prev: links.prev ? resolvePaginationLink(url, links.prev) : null,
+          $next: links.next ? resolvePaginationLink(url, links.next) : null,
+        }
+      } else {
+        value = iteration.value as any
+      }
+    } catch (error: any) {
+      if (!process.env.TEST) {
+        console.error(
+          error instanceof Response ? getErrorFromResponse(error) : error
+        )
+      }
+      done = true
+      value = {
+        $error: options.problemDetails
+          ? (getProblemDetails(error, options) as JSON)
+          : getErrorDetails(error),
+      }
+    }
+
+    yield { value, done }
+  } while (!done)
+}
+
+function getErrorDetails(error: any): JSON {
+  if (error instanceof Response) {
+    error = getErrorFromResponse(error)
+  }
+  return {
+    ...error,
+    message: error.message || 'An unknown error occurred',
+    stack:
+      process.env.NODE_ENV !== 'production'
+        ? '\n' + getStackTrace(error)
+        : undefined,
+  }
+}
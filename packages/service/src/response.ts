@@ -1,5 +1,7 @@
 import { getStackTrace } from './errorUtils.js'
+import { getStatusTitle } from './problem.js'
 import { Headers } from './headers.js'
+import { stringifyJSON } from './json/stringify.js'
 import { JSONCodable } from './json/types.js'
 
 class TracedResponse extends Response {
@@ -29,15 +31,15 @@ function generateStackTrace(constructor: Function) {
 }
 
 /**
- * Stringify the `body` argument with `JSON.stringify` and set the
- * `Content-Type` header to `application/json`.
+ * Stringify the `body` argument with `JSON.stringify` (bigints become
+ * strings) and set the `Content-Type` header to `application/json`.
  */
 export class JSONResponse<T extends JSONCodable> extends TracedResponse {
   constructor(
     readonly decodedBody: T,
     options?: { status?: number; headers?: Headers }
   ) {
-    super(JSON.stringify(decodedBody), {
+    super(stringifyJSON(decodedBody), {
       ...options,
       headers: {
         ...options?.headers,
@@ -49,12 +51,65 @@ export class JSONResponse<T extends JSONCodable> extends TracedResponse {
 
 type ErrorDetails = { message: string } & Record<string, JSONCodable>
 
+/**
+ * An RFC 9457 problem details object. Other properties are extension
+ * members.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9457
+ */
+export type ProblemDetails = {
+  /**
+   * A URI that identifies the problem type.
+   * @default "about:blank"
+   */
+  type?: string
+  /**
+   * A short summary of the problem type. When `type` is "about:blank", it
+   * should be the HTTP status phrase, which is the default.
+   */
+  title?: string
+  /**
+   * The HTTP status code.
+   * @default 500
+   */
+  status?: number
+  /** An explanation specific to this occurrence of the problem. */
+  detail?: string
+  /** A URI that identifies this occurrence of the problem. */
+  instance?: string
+  [extension: string]: JSONCodable | undefined
+}
+
+/**
+ * HTTP error response with a problem details body, whose `Content-Type`
+ * is `application/problem+json`. The `type`, `title`, and `status` are
+ * always defined.
+ *
+ * @see https://www.rfc-editor.org/rfc/rfc9457
+ */
+export class ProblemResponse extends JSONResponse<ProblemDetails> {
+  constructor(problem: ProblemDetails, headers?: Headers) {
+    const status = problem.status ?? 500
+    super(
+      {
+        type: 'about:blank',
+        title: getStatusTitle(status),
+        ...problem,
+        status,
+      },
+      { status, headers }
+    )
+    this.headers.set('Content-Type', 'application/problem+json')
+  }
+}
+
 /**
  * HTTP 500 response with a JSON body
  *
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/500
  */
 export class InternalServerError extends JSONResponse<ErrorDetails> {
+  declare readonly status: 500
   constructor(error: ErrorDetails, headers?: Headers) {
     super(error, { status: 500, headers })
   }
@@ -66,145 +121,231 @@ export class InternalServerError extends JSONResponse<ErrorDetails> {
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/400
  */
 export class BadRequestError extends JSONResponse<ErrorDetails> {
+  declare readonly status: 400
   constructor(error: ErrorDetails, headers?: Headers) {
     super(error, { status: 400, headers })
   }
 }
 
 /**
- * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/401
+ * The optional details of an error response, which become its JSON body.
+ */
+export type HttpErrorDetails = { message?: string } & Record<
+  string,
+  JSONCodable | undefined
+>
+
+/**
+ * The JSON body of an error response, which has the name of its class.
+ */
+export type HttpErrorBody<
+  TName extends string,
+  TDetails extends HttpErrorDetails,
+> = TDetails & { name: TName }
+
+/**
+ * An error response whose JSON body has the name of its class.
+ */
+export type HttpErrorResponse<
+  TStatus extends number,
+  TName extends string,
+  TDetails extends HttpErrorDetails = HttpErrorDetails,
+> = JSONResponse<HttpErrorBody<TName, TDetails>> & { readonly status: TStatus }
+
+/**
+ * The class returned by `defineHttpError`. Its type argument types the
+ * details of each error.
+ */
+export type HttpErrorClass<TStatus extends number, TName extends string> = new <
+  TDetails extends HttpErrorDetails = HttpErrorDetails,
+>(
+  details?: TDetails,
+  headers?: Headers
+) => HttpErrorResponse<TStatus, TName, TDetails>
+
+/**
+ * The base class of the built-in error classes, which only accept
+ * headers.
  */
-export class UnauthorizedError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 401, headers })
+export type StatusErrorClass<
+  TStatus extends number,
+  TName extends string,
+> = new (headers?: Headers) => HttpErrorResponse<TStatus, TName>
+
+/**
+ * Define an error response class for the given status code. The class
+ * accepts optional details, which are sent as its JSON body along with
+ * the class name, so the client can throw an error with the same name.
+ *
+ * The details can be typed with a type argument:
+ *
+ * ```ts
+ * class UserNotFound extends defineHttpError(404, 'UserNotFound')<{
+ *   userId: string
+ * }> {}
+ *
+ * throw new UserNotFound({ userId })
+ * ```
+ */
+export function defineHttpError<
+  const TStatus extends number,
+  const TName extends string,
+>(status: TStatus, name: TName): HttpErrorClass<TStatus, TName> {
+  return class HttpError<
+    TDetails extends HttpErrorDetails = HttpErrorDetails,
+  > extends JSONResponse<HttpErrorBody<TName, TDetails>> {
+    declare readonly status: TStatus
+    constructor(details?: TDetails, headers?: Headers) {
+      super({ ...details, name } as HttpErrorBody<TName, TDetails>, {
+        status,
+        headers,
+      })
+    }
+  }
+}
+
+function defineStatusError<
+  const TStatus extends number,
+  const TName extends string,
+>(status: TStatus, name: TName): StatusErrorClass<TStatus, TName> {
+  return class StatusError extends defineHttpError(status, name) {
+    constructor(headers?: Headers) {
+      super(undefined, headers)
+    }
   }
 }
 
+/**
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/401
+ */
+export class UnauthorizedError extends defineStatusError(
+  401,
+  'UnauthorizedError'
+) {}
+
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/403
  */
-export class ForbiddenError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 403, headers })
-  }
-}
+export class ForbiddenError extends defineStatusError(403, 'ForbiddenError') {}
+
+/**
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/404
+ */
+export class NotFoundError extends defineStatusError(404, 'NotFoundError') {}
+
+/**
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/405
+ */
+export class MethodNotAllowedError extends defineStatusError(
+  405,
+  'MethodNotAllowedError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/409
  */
-export class ConflictError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 409, headers })
-  }
-}
+export class ConflictError extends defineStatusError(409, 'ConflictError') {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/410
  */
-export class GoneError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 410, headers })
-  }
-}
+export class GoneError extends defineStatusError(410, 'GoneError') {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/411
  */
-export class LengthRequiredError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 411, headers })
-  }
-}
+export class LengthRequiredError extends defineStatusError(
+  411,
+  'LengthRequiredError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/412
  */
-export class PreconditionFailedError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 412, headers })
-  }
-}
+export class PreconditionFailedError extends defineStatusError(
+  412,
+  'PreconditionFailedError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/413
  */
-export class PayloadTooLargeError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 413, headers })
-  }
-}
+export class PayloadTooLargeError extends defineStatusError(
+  413,
+  'PayloadTooLargeError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/415
  */
-export class UnsupportedMediaTypeError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 415, headers })
-  }
-}
+export class UnsupportedMediaTypeError extends defineStatusError(
+  415,
+  'UnsupportedMediaTypeError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/416
  */
-export class RangeNotSatisfiableError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 416, headers })
-  }
-}
+export class RangeNotSatisfiableError extends defineStatusError(
+  416,
+  'RangeNotSatisfiableError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/417
  */
-export class ExpectationFailedError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 417, headers })
-  }
-}
+export class ExpectationFailedError extends defineStatusError(
+  417,
+  'ExpectationFailedError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/421
  */
-export class MisdirectedRequestError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 421, headers })
-  }
-}
+export class MisdirectedRequestError extends defineStatusError(
+  421,
+  'MisdirectedRequestError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/422
  */
-export class UnprocessableContentError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 422, headers })
-  }
-}
+export class UnprocessableContentError extends defineStatusError(
+  422,
+  'UnprocessableContentError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/428
  */
-export class PreconditionRequiredError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 428, headers })
-  }
-}
+export class PreconditionRequiredError extends defineStatusError(
+  428,
+  'PreconditionRequiredError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/429
  */
-export class TooManyRequestsError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 429, headers })
-  }
-}
+export class TooManyRequestsError extends defineStatusError(
+  429,
+  'TooManyRequestsError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/451
  */
-export class UnavailableForLegalReasonsError extends TracedResponse {
-  constructor(headers?: Headers) {
-    super(null, { status: 451, headers })
-  }
-}
+export class UnavailableForLegalReasonsError extends defineStatusError(
+  451,
+  'UnavailableForLegalReasonsError'
+) {}
+
+/**
+ * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/503
+ */
+export class ServiceUnavailableError extends defineStatusError(
+  503,
+  'ServiceUnavailableError'
+) {}
 
 /**
  * @see https://developer.mozilla.org/en-US/docs/Web/HTTP/Status/307
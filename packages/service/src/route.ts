@@ -17,8 +17,10 @@ import type {
   MultiParamRouteHandler,
   MultiParamRoutePath,
   PathParam,
+  RevivedClientResult,
   RouteDefinition,
   RouteResult,
+  RouteOptions,
   SingleParamRouteHandler,
   SingleParamRoutePath,
 } from './types.js'
@@ -29,7 +31,11 @@ import type { ws } from './websocket.js'
  */
 export const route = create()
 
-function defineRoute(path: string, middleware?: AnyMiddleware): RouteBuilder {
+function defineRoute(
+  path: string,
+  middleware?: AnyMiddleware,
+  options?: RouteOptions
+): RouteBuilder {
   return new Proxy({} as RouteBuilder, {
     get(_, key: string) {
       const method = key.toUpperCase() as RouteMethod
@@ -38,6 +44,7 @@ function defineRoute(path: string, middleware?: AnyMiddleware): RouteBuilder {
         path,
         handler,
         middleware: middleware ? chain(middleware as Middleware) : null,
+        ...options,
       })
     },
   })
@@ -52,12 +59,22 @@ function defineWebSocketRoute(
 function create<T extends AnyMiddleware = never>(middlewares: T | null = null) {
   type TMiddleware = MiddlewareChain<ApplyMiddlewares<[T]>>
 
-  function route(path: string, middleware: AnyMiddleware | null = null) {
+  function route(
+    path: string,
+    middleware: AnyMiddleware | RouteOptions | null = null,
+    options?: RouteOptions
+  ) {
+    // Middlewares are functions, so an object must be the options.
+    if (middleware && typeof middleware === 'object') {
+      options = middleware
+      middleware = null
+    }
     return defineRoute(
       path,
       chain(middlewares as Middleware | null).use(
         middleware as Middleware | null
-      )
+      ),
+      options
     )
   }
 
@@ -82,12 +99,33 @@ export type RouteContext<T extends RouteFactory<any>> =
 export interface RouteFactory<T extends AnyMiddlewareChain> {
   /**
    * Define a new HTTP route, optionally with a set of middlewares.
+   *
+   * The route can be limited to a range of API versions, like
+   * `{ since: 'v2', until: 'v3' }`. This has no effect unless the
+   * generator's `versions` or `versionPrefix` option is used.
+   *
+   * The error responses the handler may throw can be declared with the
+   * `throws` option, like `{ throws: [ConflictError] }`, so the generated
+   * client can type them.
    */
   <TPath extends string>(path: TPath): RouteBuilder<TPath, T>
-  <TPath extends string, TMiddleware extends ExtractMiddleware<T>>(
+  <TPath extends string, const TOptions extends RouteOptions>(
     path: TPath,
-    middleware: TMiddleware
-  ): RouteBuilder<TPath, Extract<ApplyMiddleware<T, TMiddleware>, Middleware>>
+    options: TOptions
+  ): RouteBuilder<TPath, T, TOptions>
+  <
+    TPath extends string,
+    TMiddleware extends ExtractMiddleware<T>,
+    const TOptions extends RouteOptions = {},
+  >(
+    path: TPath,
+    middleware: TMiddleware,
+    options?: TOptions
+  ): RouteBuilder<
+    TPath,
+    Extract<ApplyMiddleware<T, TMiddleware>, Middleware>,
+    TOptions
+  >
 
   /**
    * Define a websocket route powered by [crossws].
@@ -122,6 +160,7 @@ type MultiParamRouteBuilder<
   TPath extends MultiParamRoutePath,
   TMethod extends RouteMethod,
   TMiddleware extends AnyMiddleware,
+  TOptions,
 > = <
   TPathParams extends InferParamsArray<TPath, PathParam> = InferParamsArray<
     TPath,
@@ -144,12 +183,15 @@ type MultiParamRouteBuilder<
   middleware?: TMiddleware
   /** @internal */
   __clientResult: ClientResult<TResult>
-}
+  /** @internal */
+  __revivedClientResult: RevivedClientResult<TResult>
+} & TOptions
 
 type SingleParamRouteBuilder<
   TPath extends SingleParamRoutePath,
   TMethod extends RouteMethod,
   TMiddleware extends AnyMiddleware,
+  TOptions,
 > = <
   TPathParam extends PathParam = string,
   TData extends object = Record<string, never>,
@@ -169,12 +211,15 @@ type SingleParamRouteBuilder<
   middleware?: TMiddleware
   /** @internal */
   __clientResult: ClientResult<TResult>
-}
+  /** @internal */
+  __revivedClientResult: RevivedClientResult<TResult>
+} & TOptions
 
 type FixedRouteBuilder<
   TPath extends string,
   TMethod extends RouteMethod,
   TMiddleware extends AnyMiddleware,
+  TOptions,
 > = <
   TData extends object = Record<string, never>,
   const TResult extends RouteResult = any,
@@ -192,17 +237,25 @@ type FixedRouteBuilder<
   middleware?: TMiddleware
   /** @internal */
   __clientResult: ClientResult<TResult>
-}
+  /** @internal */
+  __revivedClientResult: RevivedClientResult<TResult>
+} & TOptions
 
 export type RouteBuilder<
   TPath extends string = any,
   TMiddleware extends AnyMiddleware = any,
+  TOptions = {},
 > = {
   [TMethod in
     | RouteMethod
     | Lowercase<RouteMethod>]: TPath extends MultiParamRoutePath
-    ? MultiParamRouteBuilder<TPath, Uppercase<TMethod>, TMiddleware>
+    ? MultiParamRouteBuilder<TPath, Uppercase<TMethod>, TMiddleware, TOptions>
     : TPath extends SingleParamRoutePath
-      ? SingleParamRouteBuilder<TPath, Uppercase<TMethod>, TMiddleware>
-      : FixedRouteBuilder<TPath, Uppercase<TMethod>, TMiddleware>
+      ? SingleParamRouteBuilder<
+          TPath,
+          Uppercase<TMethod>,
+          TMiddleware,
+          TOptions
+        >
+      : FixedRouteBuilder<TPath, Uppercase<TMethod>, TMiddleware, TOptions>
 }
@@ -0,0 +1,184 @@
+import {
+  defineClient,
+  type Client,
+  type ClientOptions,
+  type ClientRoutes,
+  type ErrorMode,
+  type HeadersInit,
+  type ws as wsClient,
+} from '@alien-rpc/client'
+import { chain, type Middleware, type RequestContext } from 'alien-middleware'
+import { isError, shake } from 'radashi'
+import { compileRoutes, type CompileRoutesOptions } from './compileRoutes.js'
+import type { Promisable } from './internal/types.js'
+import type { RouteList } from './types.js'
+import { createRouteHooks, type RoutePeer, type ws } from './websocket.js'
+
+export type TestClientOptions<TErrorMode extends ErrorMode = ErrorMode> = Omit<
+  ClientOptions<TErrorMode>,
+  'fetch' | 'WebSocket'
+> & {
+  /**
+   * Provide context to every route, as if a middleware had returned it
+   * (e.g. an authenticated user). For WebSocket routes, this is called
+   * once per connection.
+   *
+   * Route middlewares still run afterwards, so they see this context.
+   */
+  context?: (request: Request) => Promisable<object>
+  /**
+   * Options for the `compileRoutes` call. The `prefix` is also used as
+   * the default `prefixUrl` of the client.
+   */
+  routeOptions?: CompileRoutesOptions
+  /**
+   * Options for the `ws.compileRoutes` call.
+   */
+  wsOptions?: ws.CompileRoutesOptions
+}
+
+/**
+ * Create a client whose requests are handled in the current process,
+ * without an HTTP server. HTTP routes are dispatched through
+ * `compileRoutes`, while WebSocket routes get a fake connection that
+ * calls the same hooks as `ws.compileRoutes`.
+ *
+ * ```ts
+ * import clientRoutes from './client/generated/api.js'
+ * import serverRoutes from './server/generated/api.js'
+ *
+ * const client = createTestClient(
+ *   { server: serverRoutes, client: clientRoutes },
+ *   { context: () => ({ user: testUser }) }
+ * )
+ * ```
+ */
+export function createTestClient<
+  API extends ClientRoutes,
+  TErrorMode extends ErrorMode = 'reject',
+>(
+  routes: { server: RouteList; client: API },
+  {
+    context: getContext,
+    routeOptions,
+    wsOptions,
+    ...options
+  }: TestClientOptions<TErrorMode> = {}
+): Client<API, TErrorMode> {
+  const handler = chain(
+    getContext
+      ? (((ctx: RequestContext) => getContext(ctx.request)) as Middleware)
+      : null
+  ).use(compileRoutes(routes.server, routeOptions))
+
+  // No adapter is needed, since the hooks are called directly.
+  const hooks = createRouteHooks(routes.server, wsOptions ?? {})
+
+  return defineClient(routes.client, {
+    prefixUrl: new URL(routeOptions?.prefix ?? '/', 'http://localhost').href,
+    ...options,
+    async fetch(request) {
+      const response = await handler({
+        request,
+        ip: '127.0.0.1',
+        platform: {},
+        env: () => undefined,
+        waitUntil() {},
+        passThrough() {},
+      })
+      return response ?? new Response(null, { status: 404 })
+    },
+    WebSocket: createTestWebSocket(hooks, getContext),
+  })
+}
+
+type RouteHooks = ReturnType<typeof createRouteHooks>
+
+function toHeaders(init: HeadersInit | undefined) {
+  return new Headers(
+    !init || Array.isArray(init) || init instanceof Headers ? init : shake(init)
+  )
+}
+
+/**
+ * Create a `WebSocket` constructor that exchanges messages with the given
+ * hooks, as if they belonged to a server on the other end.
+ */
+function createTestWebSocket(
+  hooks: RouteHooks,
+  getContext: TestClientOptions['context']
+): wsClient.WebSocketConstructor {
+  return class TestWebSocket extends EventTarget {
+    readonly CONNECTING = 0
+    readonly OPEN = 1
+    readonly CLOSING = 2
+    readonly CLOSED = 3
+
+    readyState = this.CONNECTING
+    readonly #peer: Promise<RoutePeer>
+
+    constructor(url: string, options?: { headers?: HeadersInit }) {
+      super()
+
+      const request = new Request(url.replace(/^ws/, 'http'), {
+        headers: toHeaders(options?.headers),
+      })
+
+      // The connection opens asynchronously, like a real one.
+      this.#peer = (async () => {
+        const peer: RoutePeer = {
+          id: crypto.randomUUID(),
+          remoteAddress: '127.0.0.1',
+          context: { request, ...(await getContext?.(request)) },
+          send: (data: unknown) => {
+            if (this.readyState === this.OPEN) {
+              this.dispatchEvent(
+                new MessageEvent('message', {
+                  data: typeof data === 'string' ? data : JSON.stringify(data),
+                })
+              )
+            }
+          },
+        }
+
+        this.readyState = this.OPEN
+        this.dispatchEvent(new Event('open'))
+        return peer
+      })()
+    }
+
+    send(data: string) {
+      const message = JSON.parse(data)
+      void this.#peer.then(peer =>
+        hooks.message(peer, message).catch(error => {
+          // Fail the request instead of leaving the client waiting.
+          if ('method' in message && message.id !== undefined) {
+            peer.send({
+              id: message.id,
+              error: {
+                code: 500,
+                message: isError(error) ? error.message : String(error),
+              },
+            })
+          } else {
+            console.error(error)
+          }
+        })
+      )
+    }
+
+    close(code = 1000, reason = '') {
+      if (this.readyState >= this.CLOSING) {
+        return
+      }
+      this.readyState = this.CLOSING
+      void this.#peer.then(peer => {
+        hooks.close(peer)
+        this.readyState = this.CLOSED
+        this.dispatchEvent(
+          Object.assign(new Event('close'), { code, reason, wasClean: true })
+        )
+      })
+    }
+  } as unknown as wsClient.WebSocketConstructor
+}
@@ -2,6 +2,7 @@ import type { RouteMethod, RouteResultFormat } from '@alien-rpc/route'
 import type { TSchema } from '@sinclair/typebox'
 import { MiddlewareChain, RequestContext } from 'alien-middleware'
 import type { InferParamNames, InferParamsArray } from 'pathic'
+import type { CompileRouteOptions } from './compileRoute.js'
 import type { Promisable } from './internal/types.js'
 import type { JSON, JSONCodable, JSONObjectCodable } from './json/types.js'
 import type { PaginationLinks } from './pagination.js'
@@ -71,6 +72,33 @@ export interface RouteDefinition<
   path: TPath
   handler: (...args: TArgs) => TResult
   middleware?: MiddlewareChain | null
+  /** The first API version that serves this route. */
+  since?: string
+  /** The first API version that no longer serves this route. */
+  until?: string
+}
+
+/**
+ * Limit a route to a range of API versions, which the generator's
+ * `versions` option decides to serve. Versions are compared with numeric
+ * collation, so `v10` comes after `v9`.
+ */
+export type RouteVersions = {
+  since?: string
+  until?: string
+}
+
+/**
+ * The options of an HTTP route, passed to the route factory.
+ */
+export type RouteOptions = RouteVersions & {
+  /**
+   * The error responses the route handler may throw, like
+   * `[ConflictError, NotFound]`. The generator uses them to type the
+   * errors of the route's client function. Alternatively, use a `@throws`
+   * tag in the route's JSDoc comment.
+   */
+  throws?: readonly (abstract new (...args: any[]) => Response)[]
 }
 
 /**
@@ -90,6 +118,12 @@ export interface Route {
   format: RouteResultFormat
   pathSchema?: TSchema
   requestSchema?: TSchema
+  /**
+   * The JSON-encoded result of the route handler (or each value yielded by
+   * a `json-seq` or `sse` route). Only checked when `NODE_ENV` is not
+   * "production".
+   */
+  responseSchema?: TSchema
 }
 
 export type PathParams = { [key: string]: PathParam }
@@ -150,7 +184,8 @@ export type InferRouteParams<TDefinition extends RouteDefinition> =
 export type RouteResponder = (
   route: RouteDefinition,
   args: Parameters<RouteHandler>,
-  ctx: RequestContext
+  ctx: RequestContext,
+  options: CompileRouteOptions
 ) => Promisable<Response>
 
 /**
@@ -170,21 +205,28 @@ export interface AnyResponse {
   readonly text: () => Promise<string>
 }
 
-type ToJSONStrict<T> = T extends object
+type ToJSONStrict<T, TRevived> = T extends object
   ? T extends ReadonlyArray<infer TElement>
     ? Array<TElement> extends T
-      ? ToJSON<TElement>[]
-      : { -readonly [K in keyof T]: ToJSON<T[K]> }
+      ? ToJSON<TElement, TRevived>[]
+      : { -readonly [K in keyof T]: ToJSON<T[K], TRevived> }
     : T extends JSONObjectCodable
-      ? { -readonly [K in keyof T]: ToJSON<T[K]> }
+      ? { -readonly [K in keyof T]: ToJSON<T[K], TRevived> }
       : T extends BigInt
         ? never
         : {}
-  : Extract<T, JSON | undefined>
+  : T extends bigint
+    ? string
+    : Extract<T, JSON | undefined>
 
-type ToJSON<T> = T extends { toJSON(): infer TData }
-  ? ToJSONStrict<TData>
-  : ToJSONStrict<T>
+/**
+ * Types in `TRevived` are preserved, since the client revives them.
+ */
+type ToJSON<T, TRevived = never> = T extends TRevived
+  ? T
+  : T extends { toJSON(): infer TData }
+    ? ToJSONStrict<TData, TRevived>
+    : ToJSONStrict<T, TRevived>
 
 /**
  * Given a route handler's return type, receive a client-compatible type.
@@ -193,11 +235,17 @@ type ToJSON<T> = T extends { toJSON(): infer TData }
  *
  * Importantly, we never want a `Promise` type back.
  */
-export type ClientResult<T> =
+export type ClientResult<T, TRevived = never> =
   T extends Promise<infer TAwaited>
-    ? ClientResult<TAwaited>
+    ? ClientResult<TAwaited, TRevived>
     : T extends AnyResponse
       ? T
       : T extends AsyncIterable<infer TValue>
-        ? AsyncIterable<ToJSON<TValue>>
-        : ToJSON<T>
+        ? AsyncIterable<ToJSON<TValue, TRevived>>
+        : ToJSON<T, TRevived>
+
+/**
+ * Like `ClientResult` but `Date` and `bigint` values are preserved. This is
+ * used by `@alien-rpc/generator` when its `reviveResults` option is enabled.
+ */
+export type RevivedClientResult<T> = ClientResult<T, Date | bigint>
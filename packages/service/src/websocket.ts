@@ -10,18 +10,20 @@ import type {
 } from 'alien-ws'
 import { isError } from 'radashi'
 import {
-  firstLeafError,
   getStackTrace,
+  getValidationDetails,
   isDecodeCheckError,
   isDecodeError,
-  type ValueError,
 } from './errorUtils.js'
 import { importRoute } from './internal/importRoute.js'
 import type { Promisable } from './internal/types.js'
+import { stringifyJSON } from './json/stringify.js'
 import type { JSONCodable } from './json/types.js'
-import { JSONResponse } from './response.js'
+import { createProblemDetails, getProblemDetails } from './problem.js'
+import { createMemoryPubSub, type PubSubAdapter } from './pubsub.js'
+import { JSONResponse, type ProblemDetails } from './response.js'
 import { RouteFactory } from './route.js'
-import type { RouteList } from './types.js'
+import type { ClientResult, RouteList } from './types.js'
 
 export function isWebSocketRoute(route: any): route is ws.Route {
   return !!route && route.protocol === 'ws'
@@ -31,15 +33,29 @@ function isAsyncIterable<T>(value: unknown): value is AsyncIterable<T> {
   return !!value && typeof value === 'object' && Symbol.asyncIterator in value
 }
 
+/**
+ * The parts of a peer that WebSocket routes use.
+ */
+export type RoutePeer = Pick<Peer, 'id' | 'remoteAddress' | 'context' | 'send'>
+
+type TopicMethods = Pick<
+  ws.RequestContext,
+  'subscribe' | 'unsubscribe' | 'publish'
+>
+
+type PeerMethods = TopicMethods & Pick<ws.RequestContext, 'client'>
+
 function createWebSocketContext<TMiddleware extends MiddlewareChain>(
-  peer: Peer<PeerContext<TMiddleware>>,
+  peer: RoutePeer,
   deferQueue: ((reason?: any) => void)[],
+  peerMethods: PeerMethods,
   signal?: AbortSignal
 ): ws.RequestContext<TMiddleware> {
   const { request, ...context } = peer.context as PeerContext<TMiddleware>
 
   return {
     ...context,
+    ...peerMethods,
     id: peer.id,
     ip: peer.remoteAddress,
     signal: signal ?? request.signal,
@@ -50,206 +66,429 @@ function createWebSocketContext<TMiddleware extends MiddlewareChain>(
   }
 }
 
-export namespace ws {
-  export function compileRoutes<TAdapter extends WebSocketAdapter>(
-    routes: RouteList,
-    createAdapter: (options: WebSocketAdapterOptions) => TAdapter,
-    hooks?: Partial<ExtractHooks<TAdapter>>
-  ) {
-    const wsRoutes: Record<string, ws.Route> = Object.create(null)
-    for (const route of routes) {
-      if (isWebSocketRoute(route)) {
-        wsRoutes[route.name] = route
+type Unsubscribe = () => Promisable<void>
+
+/**
+ * Topic subscriptions belong to the peer, so they outlive the request that
+ * created them. They're removed when the connection is closed.
+ */
+function createTopicMethods(
+  peer: RoutePeer,
+  pubsub: PubSubAdapter,
+  subscriptions: Map<string, Promise<Unsubscribe>>
+): TopicMethods {
+  return {
+    async subscribe({ topic }) {
+      let subscription = subscriptions.get(topic)
+      if (!subscription) {
+        const prefix = `{"topic":${JSON.stringify(topic)},"data":`
+        subscription = Promise.resolve(
+          pubsub.subscribe(topic, message => {
+            peer.send(prefix + message + '}')
+          })
+        )
+        subscriptions.set(topic, subscription)
+        subscription.catch(() => {
+          subscriptions.delete(topic)
+        })
       }
-    }
+      await subscription
+    },
+    async unsubscribe({ topic }) {
+      const subscription = subscriptions.get(topic)
+      if (subscription) {
+        subscriptions.delete(topic)
+        const unsubscribe = await subscription
+        await unsubscribe()
+      }
+    },
+    async publish({ topic }, data) {
+      await pubsub.publish(topic, stringifyJSON(data) ?? 'null')
+    },
+  }
+}
 
-    const pendingRequests = new WeakMap<object, Map<number, AbortController>>()
-    const getPendingRequests = (context: object) => {
-      let requests = pendingRequests.get(context)
-      if (!requests) {
-        requests = new Map()
-        pendingRequests.set(context, requests)
+type ClientCall = {
+  resolve: (result: any) => void
+  reject: (error: any) => void
+}
+
+type ClientCalls = {
+  nextId: number
+  pending: Map<number, ClientCall>
+}
+
+type RequestMessage = {
+  method: string
+  params: any[]
+  id?: number
+}
+
+type ClientReply = {
+  id: number
+  result?: any
+  error?: { code: number; message: string; data?: any }
+}
+
+/**
+ * Call the handlers that the client registered with its `wsHandlers`
+ * option. Messages sent to the client have the same shape as those sent
+ * by the client, so it replies with an `id` and either a `result` or an
+ * `error`.
+ */
+function createClientProxy(
+  peer: RoutePeer,
+  calls: ClientCalls
+): ws.ClientProxy {
+  const notify = new Proxy(Object.create(null), {
+    get(_, method) {
+      if (typeof method === 'string') {
+        return (...params: any[]) => {
+          peer.send({ method, params })
+        }
       }
-      return requests
+    },
+  })
+
+  return new Proxy(Object.create(null), {
+    get(_, method) {
+      if (method === 'notify') {
+        return notify
+      }
+      if (typeof method === 'string' && method !== 'then') {
+        return (...params: any[]) =>
+          new Promise((resolve, reject) => {
+            const id = calls.nextId++
+            calls.pending.set(id, { resolve, reject })
+            peer.send({ method, params, id })
+          })
+      }
+    },
+  })
+}
+
+/**
+ * The error of a request message, which keeps the problem details in its
+ * `data` property.
+ */
+function getProblemError(problem: ProblemDetails) {
+  return {
+    code: problem.status,
+    message: problem.detail ?? problem.title,
+    data: problem,
+  }
+}
+
+function settleClientCall(calls: ClientCalls, reply: ClientReply) {
+  const call = calls.pending.get(reply.id)
+  if (!call) {
+    return console.error(
+      `Received a reply for an unknown client call: ${reply.id}`
+    )
+  }
+  calls.pending.delete(reply.id)
+  if (reply.error) {
+    const error = Object.assign(new Error(), reply.error)
+    error.name = 'ws.ClientError'
+    call.reject(error)
+  } else {
+    call.resolve(reply.result)
+  }
+}
+
+/**
+ * Handle the messages of WebSocket peers. The test client calls these
+ * hooks directly, since it has no adapter.
+ */
+export function createRouteHooks(
+  routes: RouteList,
+  options: ws.CompileRoutesOptions
+) {
+  const pubsub = options.pubsub ?? createMemoryPubSub()
+
+  const wsRoutes: Record<string, ws.Route> = Object.create(null)
+  for (const route of routes) {
+    if (isWebSocketRoute(route)) {
+      wsRoutes[route.name] = route
     }
+  }
 
-    return createAdapter({
-      hooks: {
-        ...hooks,
-        async message(peer, message) {
-          if (hooks?.message) {
-            await hooks.message(peer, message)
-          }
+  const pendingRequests = new WeakMap<object, Map<number, AbortController>>()
+  const getPendingRequests = (context: object) => {
+    let requests = pendingRequests.get(context)
+    if (!requests) {
+      requests = new Map()
+      pendingRequests.set(context, requests)
+    }
+    return requests
+  }
 
-          let { method, params, id } = message.json<{
-            method: string
-            params: any[]
-            id?: number
-          }>()
+  const subscriptions = new WeakMap<object, Map<string, Promise<Unsubscribe>>>()
+  const getSubscriptions = (context: object) => {
+    let topics = subscriptions.get(context)
+    if (!topics) {
+      topics = new Map()
+      subscriptions.set(context, topics)
+    }
+    return topics
+  }
 
-          if (method === '.ping') {
-            return void peer.send({ pong: true })
-          }
+  const clientCalls = new WeakMap<object, ClientCalls>()
+  const getClientCalls = (context: object) => {
+    let calls = clientCalls.get(context)
+    if (!calls) {
+      calls = { nextId: 1, pending: new Map() }
+      clientCalls.set(context, calls)
+    }
+    return calls
+  }
 
-          if (id === undefined) {
-            const route = wsRoutes[method]
-            if (!route) {
-              return console.error(
-                `Received client notification for unknown WebSocket route: ${method}`
-              )
-            }
+  const getPeerMethods = (peer: RoutePeer): PeerMethods => ({
+    ...createTopicMethods(peer, pubsub, getSubscriptions(peer.context)),
+    client: createClientProxy(peer, getClientCalls(peer.context)),
+  })
+
+  return {
+    async message(peer: RoutePeer, data: RequestMessage | ClientReply) {
+      // Messages without a method are replies to `ctx.client` calls.
+      if (!('method' in data)) {
+        return settleClientCall(getClientCalls(peer.context), data)
+      }
+
+      let { method, params, id } = data
+
+      if (method === '.ping') {
+        return void peer.send({ pong: true })
+      }
+
+      if (id === undefined) {
+        const route = wsRoutes[method]
+        if (!route) {
+          return console.error(
+            `Received client notification for unknown WebSocket route: ${method}`
+          )
+        }
+
+        if (route.requestSchema) {
+          params = Decode(route.requestSchema, params)
+        }
+
+        const { handler } = await importRoute<ws.RouteDefinition>(route)
+
+        const deferQueue: ((reason?: any) => void)[] = []
+        const context = createWebSocketContext(
+          peer,
+          deferQueue,
+          getPeerMethods(peer)
+        )
+
+        let reason: any
+        try {
+          await handler(...params, context)
+        } catch (error) {
+          console.error(error)
+          reason = error
+        } finally {
+          await Promise.allSettled(
+            deferQueue.map(handler => handler(reason))
+          ).catch(console.error)
+        }
+      } else {
+        const pendingRequests = getPendingRequests(peer.context)
+
+        if (method === '.cancel') {
+          const ctrl = pendingRequests.get(id)
+          pendingRequests.delete(id)
+          return ctrl?.abort()
+        }
 
-            if (route.requestSchema) {
-              params = Decode(route.requestSchema, params)
+        const route = wsRoutes[method]
+        if (!route) {
+          return void peer.send({
+            error: options.problemDetails
+              ? getProblemError(createProblemDetails(404))
+              : { code: 404, message: 'Not Found' },
+            id,
+          })
+        }
+
+        const { handler } = await importRoute<ws.RouteDefinition>(route)
+
+        const deferQueue: ((reason?: any) => void)[] = []
+        const flushDeferQueue = (reason?: any) => {
+          if (deferQueue.length) {
+            if (ctrl.signal.aborted) {
+              reason = ctrl.signal.reason
             }
+            Promise.allSettled(
+              deferQueue.map(handler => handler(reason))
+            ).catch(console.error)
+            deferQueue.length = 0
+          }
+        }
 
-            const { handler } = await importRoute<RouteDefinition>(route)
+        const ctrl = new AbortController()
+        ctrl.signal.addEventListener('abort', flushDeferQueue)
+        pendingRequests.set(id, ctrl)
 
-            const deferQueue: ((reason?: any) => void)[] = []
-            const context = createWebSocketContext(peer, deferQueue)
+        const context = createWebSocketContext(
+          peer,
+          deferQueue,
+          getPeerMethods(peer),
+          ctrl.signal
+        )
 
-            let reason: any
-            try {
-              await handler(...params, context)
-            } catch (error) {
-              console.error(error)
-              reason = error
-            } finally {
-              await Promise.allSettled(
-                deferQueue.map(handler => handler(reason))
-              ).catch(console.error)
+        try {
+          // Invalid params are answered with a validation error below.
+          if (route.requestSchema) {
+            params = Decode(route.requestSchema, params)
+          }
+
+          const result: JSONCodable | AsyncIterable<JSONCodable> =
+            await handler(...params, context)
+
+          if (isAsyncIterable(result)) {
+            for await (const chunk of result) {
+              peer.send({ id, result: chunk })
             }
+            peer.send({ id, close: true })
           } else {
-            const pendingRequests = getPendingRequests(peer.context)
-
-            if (method === '.cancel') {
-              const ctrl = pendingRequests.get(id)
-              pendingRequests.delete(id)
-              return ctrl?.abort()
+            peer.send({ id, result })
+          }
+          flushDeferQueue()
+        } catch (error) {
+          if (options.problemDetails) {
+            const problem = getProblemDetails(error, options)
+            if (
+              problem.status === 500 &&
+              process.env.NODE_ENV !== 'production'
+            ) {
+              console.error(error)
             }
+            peer.send({ id, error: getProblemError(problem) })
+          } else if (error instanceof Response) {
+            const {
+              code = error.status,
+              message = error.statusText,
+              ...data
+            } = error instanceof JSONResponse ? error.decodedBody : {}
 
-            const route = wsRoutes[method]
-            if (!route) {
-              return void peer.send({
-                error: { code: 404, message: 'Not Found' },
+            peer.send({
+              id,
+              error: {
+                code,
+                message,
+                data: Object.keys(data).length ? data : undefined,
+                stack:
+                  process.env.NODE_ENV !== 'production' && 'stack' in error
+                    ? error.stack
+                    : undefined,
+              },
+            })
+          } else {
+            const checkError = isDecodeError(error) ? error.error : error
+            if (isDecodeCheckError(checkError)) {
+              const { message, ...data } = getValidationDetails(
+                checkError,
+                options.validationErrors === 'all'
+              )
+              peer.send({
                 id,
+                error: {
+                  code: 400,
+                  message,
+                  data,
+                  stack:
+                    process.env.NODE_ENV !== 'production'
+                      ? getStackTrace(checkError)
+                      : undefined,
+                },
+              })
+            } else {
+              if (process.env.NODE_ENV !== 'production') {
+                console.error(error)
+              }
+              peer.send({
+                id,
+                error: {
+                  code: 500,
+                  message: isError(error) ? error.message : String(error),
+                  stack:
+                    process.env.NODE_ENV !== 'production' && isError(error)
+                      ? getStackTrace(error)
+                      : undefined,
+                },
               })
             }
+          }
+          flushDeferQueue(error)
+        } finally {
+          pendingRequests.delete(id)
+        }
+      }
+    },
+    close(peer: RoutePeer) {
+      const pendingRequests = getPendingRequests(peer.context)
+      for (const ctrl of pendingRequests.values()) {
+        ctrl.abort()
+      }
 
-            if (route.requestSchema) {
-              params = Decode(route.requestSchema, params)
-            }
+      const topics = getSubscriptions(peer.context)
+      for (const subscription of topics.values()) {
+        subscription.then(unsubscribe => unsubscribe()).catch(console.error)
+      }
+      topics.clear()
 
-            const { handler } = await importRoute<RouteDefinition>(route)
-
-            const deferQueue: ((reason?: any) => void)[] = []
-            const flushDeferQueue = (reason?: any) => {
-              if (deferQueue.length) {
-                if (ctrl.signal.aborted) {
-                  reason = ctrl.signal.reason
-                }
-                Promise.allSettled(
-                  deferQueue.map(handler => handler(reason))
-                ).catch(console.error)
-                deferQueue.length = 0
-              }
-            }
+      const { pending } = getClientCalls(peer.context)
+      for (const call of pending.values()) {
+        call.reject(new Error('WebSocket connection closed'))
+      }
+      pending.clear()
+    },
+  }
+}
 
-            const ctrl = new AbortController()
-            ctrl.signal.addEventListener('abort', flushDeferQueue)
-            pendingRequests.set(id, ctrl)
-
-            const context = createWebSocketContext(
-              peer,
-              deferQueue,
-              ctrl.signal
-            )
-
-            try {
-              const result: JSONCodable | AsyncIterable<JSONCodable> =
-                await handler(...params, context)
-
-              if (isAsyncIterable(result)) {
-                for await (const chunk of result) {
-                  peer.send({ id, result: chunk })
-                }
-                peer.send({ id, close: true })
-              } else {
-                peer.send({ id, result })
-              }
-              flushDeferQueue()
-            } catch (error) {
-              if (error instanceof Response) {
-                const {
-                  code = error.status,
-                  message = error.statusText,
-                  ...data
-                } = error instanceof JSONResponse ? error.decodedBody : {}
-
-                peer.send({
-                  id,
-                  error: {
-                    code,
-                    message,
-                    data: Object.keys(data).length ? data : undefined,
-                    stack:
-                      process.env.NODE_ENV !== 'production' && 'stack' in error
-                        ? error.stack
-                        : undefined,
-                  },
-                })
-              } else {
-                const checkError = isDecodeError(error) ? error.error : error
-                if (isDecodeCheckError(checkError)) {
-                  const { message, path, value } = firstLeafError(
-                    checkError.error
-                  ) as ValueError & {
-                    value: JSONCodable
-                  }
-                  peer.send({
-                    id,
-                    error: {
-                      code: 400,
-                      message,
-                      data: { path, value },
-                      stack:
-                        process.env.NODE_ENV !== 'production'
-                          ? getStackTrace(checkError)
-                          : undefined,
-                    },
-                  })
-                } else {
-                  if (process.env.NODE_ENV !== 'production') {
-                    console.error(error)
-                  }
-                  peer.send({
-                    id,
-                    error: {
-                      code: 500,
-                      message: isError(error) ? error.message : String(error),
-                      stack:
-                        process.env.NODE_ENV !== 'production' && isError(error)
-                          ? getStackTrace(error)
-                          : undefined,
-                    },
-                  })
-                }
-              }
-              flushDeferQueue(error)
-            } finally {
-              pendingRequests.delete(id)
-            }
+export namespace ws {
+  /**
+   * Declare a topic that WebSocket clients can be subscribed to. Export it
+   * from a route module, so the generated client can listen to it. The name
+   * must be a string literal.
+   *
+   * ```ts
+   * export const chatMessages = ws.topic<ChatMessage>('chatMessages')
+   * ```
+   */
+  export function topic<TData extends JSONCodable>(
+    name: string
+  ): ws.Topic<TData> {
+    return { protocol: 'ws', topic: name } as ws.Topic<TData>
+  }
+
+  export function compileRoutes<TAdapter extends WebSocketAdapter>(
+    routes: RouteList,
+    createAdapter: (options: WebSocketAdapterOptions) => TAdapter,
+    hooks?: Partial<ExtractHooks<TAdapter>>,
+    options: ws.CompileRoutesOptions = {}
+  ) {
+    const routeHooks = createRouteHooks(routes, options)
+
+    return createAdapter({
+      hooks: {
+        ...hooks,
+        async message(peer, message) {
+          if (hooks?.message) {
+            await hooks.message(peer, message)
           }
+          await routeHooks.message(
+            peer,
+            message.json<RequestMessage | ClientReply>()
+          )
         },
         async close(peer, details) {
           if (hooks?.close) {
             await hooks.close(peer, details)
           }
-
-          const pendingRequests = getPendingRequests(peer.context)
-          for (const ctrl of pendingRequests.values()) {
-            ctrl.abort()
-          }
+          routeHooks.close(peer)
         },
       },
     })
@@ -286,8 +525,87 @@ export namespace ws {
        * client or completed.
        */
       readonly defer: (handler: (reason?: any) => Promisable<void>) => void
+      /**
+       * Send the client any data published to a topic, until the connection
+       * is closed or `unsubscribe` is called.
+       */
+      readonly subscribe: (topic: ws.Topic) => Promise<void>
+      readonly unsubscribe: (topic: ws.Topic) => Promise<void>
+      /**
+       * Send data to every client subscribed to a topic, including this
+       * one (if subscribed).
+       */
+      readonly publish: <TData extends JSONCodable>(
+        topic: ws.Topic<TData>,
+        data: NoInfer<TData>
+      ) => Promise<void>
+      /**
+       * Call the handlers that the client registered with its `wsHandlers`
+       * option.
+       */
+      readonly client: ws.ClientProxy
     }
 
+  /**
+   * The handlers that a client registers with its `wsHandlers` option.
+   * When the generator's `clientHandlersFile` option is set, the generated
+   * server file extends this interface.
+   */
+  export interface ClientHandlers {}
+
+  /**
+   * Each call resolves with the result of the client's handler, or rejects
+   * with a `ws.ClientError` if the handler threw. Use `notify` to call a
+   * handler without waiting for its result.
+   */
+  export type ClientProxy = {
+    readonly [K in keyof ClientHandlers]: ClientHandlers[K] extends (
+      ...args: infer TArgs
+    ) => infer TResult
+      ? (...args: TArgs) => Promise<Awaited<TResult>>
+      : never
+  } & {
+    readonly notify: {
+      readonly [K in keyof ClientHandlers]: ClientHandlers[K] extends (
+        ...args: infer TArgs
+      ) => any
+        ? (...args: TArgs) => void
+        : never
+    }
+  }
+
+  export type CompileRoutesOptions = {
+    /**
+     * Deliver published data through a pub/sub backend, which is needed
+     * when there are multiple server instances.
+     *
+     * @default createMemoryPubSub()
+     */
+    pubsub?: PubSubAdapter
+    /**
+     * Send errors as RFC 9457 problem details, in the `data` of each
+     * error message. The client turns them into a `ProblemError`.
+     *
+     * @default false
+     */
+    problemDetails?: boolean
+    /**
+     * When a request fails validation, describe only the first error or
+     * list every invalid value in an `errors` array. The client's
+     * `getFieldErrors` function turns either into a map of messages.
+     *
+     * @default "first"
+     */
+    validationErrors?: 'first' | 'all'
+  }
+
+  export type Topic<TData extends JSONCodable = any> = {
+    protocol: 'ws'
+    topic: string
+    /** @internal */
+    __clientResult: ClientResult<TData>
+  }
+
   export type RouteContext<T extends RouteFactory<any>> =
     T extends RouteFactory<infer TMiddleware>
       ? ws.RequestContext<TMiddleware>
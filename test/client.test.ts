@@ -1,5 +1,17 @@
-import { defineClient } from '@alien-rpc/client'
-import { compileRoutes } from '@alien-rpc/service'
+import {
+  ClientOptions,
+  defineClient,
+  defineMockClient,
+  getFieldErrors,
+  HTTPError,
+  ProblemError,
+} from '@alien-rpc/client'
+import {
+  compileRoutes,
+  CompileRoutesOptions,
+  createMemoryPubSub,
+} from '@alien-rpc/service'
+import { createTestClient, TestClientOptions } from '@alien-rpc/service/testing'
 import { createTestClient as createFetch } from '@hattip/adapter-test'
 import { chain } from 'alien-middleware'
 import { join } from 'node:path'
@@ -13,8 +25,17 @@ describe.concurrent('client', async () => {
     const testDir = join(fixturesDir, 'kitchen-sink')
 
     generators = createTestContext({ tempDir: false })
-    const generator = generators.get(testDir)
+    const generator = generators.get(testDir, {
+      reviveResults: true,
+      mocksOutFile: 'client/generated/mocks.ts',
+    })
     await generator.start()
+
+    const versionsGenerator = generators.get(
+      join(__dirname, 'generator/__fixtures__/multi-version'),
+      { versions: ['v1', 'v2'] }
+    )
+    await versionsGenerator.start()
   })
 
   test('route with no parameters', async () => {
@@ -80,6 +101,34 @@ describe.concurrent('client', async () => {
     expect(spy).toHaveBeenCalledWith(4)
   })
 
+  test('route that streams server-sent events', async () => {
+    const client = await getTestClient()
+
+    const response = client.streamPostEvents()
+    expect(await response.toArray()).toEqual([1, 2])
+
+    expect(response.previousPage).toBeUndefined()
+    expect(await response.nextPage!().toArray()).toEqual([3, 4])
+  })
+
+  test('route that resumes a stream after the connection is lost', async () => {
+    const cursors: (string | null)[] = []
+    const client = await getTestClient({
+      hooks: {
+        afterResponse({ request, response }) {
+          cursors.push(request.headers.get('X-Stream-Cursor'))
+          if (cursors.length === 1) {
+            // Drop the connection after the second value.
+            return new Response(dropAfterRecords(response.body!, 4))
+          }
+        },
+      },
+    })
+    const result = await client.streamResumable().toArray()
+    expect(result).toEqual([1, 2, 3, 4])
+    expect(cursors).toEqual([null, '2'])
+  })
+
   test('route with a JSON request body', async () => {
     const client = await getTestClient()
 
@@ -99,6 +148,25 @@ describe.concurrent('client', async () => {
     )
   })
 
+  test('every invalid field of a request body', async () => {
+    const client = await getTestClient({}, { validationErrors: 'all' })
+    const error = await client.createPost({} as any).catch(error => error)
+    expect(getFieldErrors(error)).toEqual({
+      title: ['Expected required property'],
+      text: ['Expected required property'],
+    })
+
+    const slugError = await client
+      .createPost({ title: 'hello', text: 'world', slug: 'Hi' })
+      .catch(error => error)
+    expect(getFieldErrors(slugError)).toEqual({
+      slug: [
+        'Expected string length greater or equal to 5',
+        "Expected string to match '^[a-z-]+$'",
+      ],
+    })
+  })
+
   test('route that throws an error', async () => {
     const client = await getTestClient()
     await expect(
@@ -106,14 +174,556 @@ describe.concurrent('client', async () => {
     ).rejects.toThrowErrorMatchingInlineSnapshot(`[HTTPError: oops]`)
   })
 
+  test('errors sent as problem details', async () => {
+    const client = await getTestClient({}, { problemDetails: true })
+
+    const error = await client.throwError().catch(error => error)
+    expect(error).toBeInstanceOf(ProblemError)
+    expect(error).toMatchObject({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'oops',
+    })
+
+    const invalidError = await client
+      .createPost({} as any)
+      .catch(error => error)
+    expect(invalidError).toBeInstanceOf(ProblemError)
+    expect(invalidError).toMatchObject({
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Expected required property',
+      extensions: { path: '/title' },
+    })
+  })
+
+  test('declared errors are returned with their status', async () => {
+    const client = await getTestClient({ errorMode: 'return' })
+
+    const [error] = await client.protectedRoute()
+    expect(error).toBeInstanceOf(HTTPError)
+    expect(error).toMatchObject({ status: 401 })
+
+    const [invalidError] = await client.createPost({} as any)
+    expect(invalidError).toMatchObject({
+      status: 400,
+      body: { message: 'Expected required property', path: '/title' },
+    })
+  })
+
+  test('route that returns an invalid response', async () => {
+    const client = await getTestClient()
+    await expect(
+      client.invalidResponse()
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[HTTPError: Route "invalidResponse" returned an invalid response: Unexpected property (at /password)]`
+    )
+  })
+
+  test('route that returns Date and bigint values', async () => {
+    const client = await getTestClient()
+    const result = await client.revivedResult()
+    expect(result.date).toBeInstanceOf(Date)
+    expect(result.date.getTime()).toBe(0)
+    expect(result.count).toBe(1n)
+  })
+
   test('route that returns a raw response', async () => {
     const client = await getTestClient()
     const result = await client.rawResponse({ wild: 'sup' })
     expect(await result.text()).toBe('sup')
   })
+
+  test('beforeRequest hook that modifies the request', async () => {
+    const client = await getTestClient({
+      hooks: {
+        beforeRequest({ request }) {
+          request.headers.set('X-Request-Id', 'abc')
+        },
+      },
+    })
+    const result = await client.requestId()
+    expect(result).toBe('abc')
+  })
+
+  test('beforeRequest hook gets a fresh request on every retry', async () => {
+    let attempts = 0
+    const client = await getTestClient({
+      retry: { limit: 1, delay: () => 0 },
+      hooks: {
+        beforeRequest: [
+          ({ request }) => {
+            request.headers.append('X-Request-Id', 'abc')
+          },
+          () => {
+            if (attempts++ === 0) {
+              return new Response(null, { status: 503 })
+            }
+          },
+        ],
+      },
+    })
+    expect(await client.requestId()).toBe('abc')
+    expect(attempts).toBe(2)
+  })
+
+  test('beforeRequest hook that returns a response', async () => {
+    const client = await getTestClient({
+      hooks: {
+        beforeRequest: () => Response.json(2),
+      },
+    })
+    const result = await client.one()
+    expect(result).toBe(2)
+  })
+
+  test('calls made in the same tick are batched', async () => {
+    const pathnames: string[] = []
+    const client = await getTestClient(
+      {
+        batch: true,
+        hooks: {
+          beforeRequest({ request }) {
+            pathnames.push(new URL(request.url).pathname)
+          },
+        },
+      },
+      { batch: true }
+    )
+    const results = await Promise.all([
+      client.one(),
+      client.createPost({ title: 'Hello', text: 'World' }),
+      client.throwError().catch(error => error),
+      client.one({ batch: false }),
+    ])
+    expect(results).toMatchInlineSnapshot(`
+      [
+        1,
+        {
+          "text": "World",
+          "title": "Hello",
+        },
+        [HTTPError: oops],
+        1,
+      ]
+    `)
+    expect(pathnames).toEqual(['/one', '/_batch'])
+  })
+
+  test('batched errors sent as problem details', async () => {
+    const client = await getTestClient(
+      { batch: true },
+      { batch: true, problemDetails: true }
+    )
+    const [error, invalidError] = await Promise.all([
+      client.protectedRoute().catch(error => error),
+      client.createPost({} as any).catch(error => error),
+    ])
+    expect(error).toBeInstanceOf(ProblemError)
+    expect(error).toMatchObject({ title: 'Unauthorized', status: 401 })
+    expect(invalidError).toBeInstanceOf(ProblemError)
+    expect(getFieldErrors(invalidError)).toEqual({
+      title: ['Expected required property'],
+    })
+  })
+
+  test('batched calls refresh the auth token after a 401 response', async () => {
+    let token = 'stale'
+    const refreshToken = vi.fn(async () => {
+      token = 'fresh'
+    })
+    const pathnames: string[] = []
+    const client = await getTestClient(
+      {
+        batch: true,
+        auth: { getToken: () => token, refreshToken },
+        hooks: {
+          beforeRequest({ request }) {
+            pathnames.push(new URL(request.url).pathname)
+          },
+        },
+      },
+      { batch: true }
+    )
+    const results = await Promise.all([client.protectedRoute(), client.one()])
+    expect(results).toEqual([true, 1])
+    expect(refreshToken).toHaveBeenCalledTimes(1)
+    expect(pathnames).toEqual(['/_batch', '/protected', '/protected'])
+  })
+
+  test('identical GET calls share a request', async () => {
+    const beforeRequest = vi.fn()
+    const client = await getTestClient({ hooks: { beforeRequest } })
+    const results = await Promise.all([
+      client.one(),
+      client.one(),
+      client.optionalSearchParam({ limit: 1 }),
+    ])
+    expect(results).toEqual([1, 1, [0]])
+    expect(beforeRequest).toHaveBeenCalledTimes(2)
+  })
+
+  test('cached results are used until invalidated', async () => {
+    const beforeRequest = vi.fn()
+    const client = await getTestClient({
+      resultCache: true,
+      hooks: { beforeRequest },
+    })
+    expect(await client.optionalSearchParam({ limit: 1 })).toEqual([0])
+    expect(await client.optionalSearchParam({ limit: 1 })).toEqual([0])
+    expect(beforeRequest).toHaveBeenCalledTimes(1)
+
+    // Only the results with the same params are removed.
+    client.invalidate(client.optionalSearchParam, { limit: 2 })
+    await client.optionalSearchParam({ limit: 1 })
+    expect(beforeRequest).toHaveBeenCalledTimes(1)
+
+    client.invalidate(client.optionalSearchParam, { limit: 1 })
+    await client.optionalSearchParam({ limit: 1 })
+    expect(beforeRequest).toHaveBeenCalledTimes(2)
+
+    client.invalidate(client.optionalSearchParam)
+    await client.optionalSearchParam({ limit: 1 })
+    expect(beforeRequest).toHaveBeenCalledTimes(3)
+  })
+
+  test('extended clients with their own headers have a separate result cache', async () => {
+    const beforeRequest = vi.fn()
+    const client = await getTestClient({
+      resultCache: true,
+      hooks: { beforeRequest },
+    })
+    await client.one()
+
+    // Same headers, so the parent's cache is shared.
+    await client.extend({ retry: 0 }).one()
+    expect(beforeRequest).toHaveBeenCalledTimes(1)
+
+    const userClient = client.extend({ headers: { Authorization: 'Bearer x' } })
+    await userClient.one()
+    await userClient.one()
+    expect(beforeRequest).toHaveBeenCalledTimes(2)
+  })
+
+  test('unchanged results are revalidated with an ETag', async () => {
+    const statuses: number[] = []
+    const client = await getTestClient(
+      {
+        hooks: {
+          afterResponse({ response }) {
+            statuses.push(response.status)
+          },
+        },
+      },
+      { etag: true }
+    )
+    expect(await client.one()).toBe(1)
+    expect(await client.one()).toBe(1)
+    expect(statuses).toEqual([200, 304])
+  })
+
+  test('HEAD requests get the headers of a GET response', async () => {
+    const client = await getTestClient({}, { etag: true })
+    const response = await client.fetch('one', { method: 'HEAD' })
+    expect(response.headers.get('Content-Length')).toBe('1')
+    expect(response.headers.get('ETag')).toMatch(/^W\//)
+    expect(await response.text()).toBe('')
+  })
+
+  test('unmatched requests are answered when fallthrough is disabled', async () => {
+    const client = await getTestClient({}, { fallthrough: false })
+
+    const error = await client.fetch('one', { method: 'POST' }).catch(e => e)
+    expect(error).toMatchObject({ name: 'MethodNotAllowedError', status: 405 })
+    expect(error.response.headers.get('Allow')).toBe('GET, HEAD')
+
+    const notFoundError = await client.fetch('unknown').catch(e => e)
+    expect(notFoundError).toMatchObject({ name: 'NotFoundError', status: 404 })
+  })
+
+  test('versioned clients reach the routes of their API version', async () => {
+    const { default: serverRoutes } = await import(
+      './generator/__fixtures__/multi-version/server/generated/api.js'
+    )
+    const { default: v1Routes } = await import(
+      './generator/__fixtures__/multi-version/client/generated/v1/api.js'
+    )
+    const { default: v2Routes } = await import(
+      './generator/__fixtures__/multi-version/client/generated/v2/api.js'
+    )
+
+    const pathnames: string[] = []
+    const options: ClientOptions = {
+      prefixUrl: 'http://example.com/',
+      fetch: createFetch({
+        handler: chain(compileRoutes(serverRoutes, { fallthrough: false })),
+      }),
+      hooks: {
+        beforeRequest({ request }) {
+          pathnames.push(new URL(request.url).pathname)
+        },
+      },
+    }
+    const v1 = defineClient(v1Routes, options)
+    const v2 = defineClient(v2Routes, options)
+
+    expect(await v1.listUsers()).toEqual([{ id: 1, name: 'Alice' }])
+    expect(await v2.listUsers()).toEqual([{ id: 1, name: 'Alice' }])
+    expect(await v1.getUser(1)).toEqual({ id: 1, name: 'Alice' })
+    expect(await v2.getProfile(1)).toEqual({ id: 1, name: 'Alice', bio: '' })
+    expect(pathnames).toEqual([
+      '/v1/users',
+      '/v2/users',
+      '/v1/users/1',
+      '/v2/profiles/1',
+    ])
+
+    // The v1 route was replaced in v2, so it's not served there.
+    await expect(v2.fetch('v2/users/1')).rejects.toMatchObject({
+      name: 'NotFoundError',
+      status: 404,
+    })
+  })
+
+  test('CORS headers are sent with actual responses', async () => {
+    let headers: Headers | undefined
+    const client = await getTestClient(
+      {
+        headers: { Origin: 'https://app.example.com' },
+        hooks: {
+          afterResponse({ response }) {
+            headers = response.headers
+          },
+        },
+      },
+      {
+        cors: {
+          trustedOrigin: [/\.example\.com$/],
+          exposedHeaders: ['X-Route-Name'],
+        },
+      }
+    )
+    expect(await client.one()).toBe(1)
+    expect(headers?.get('Access-Control-Allow-Origin')).toBe(
+      'https://app.example.com'
+    )
+    expect(headers?.get('Access-Control-Allow-Credentials')).toBe('true')
+    expect(headers?.get('Access-Control-Expose-Headers')).toBe('X-Route-Name')
+    expect(headers?.get('Vary')).toBe('Origin')
+  })
+
+  test('CORS keeps the Vary header of a route', async () => {
+    let headers: Headers | undefined
+    const client = await getTestClient(
+      {
+        headers: { Origin: 'https://app.example.com', 'Accept-Language': 'fr' },
+        hooks: {
+          afterResponse({ response }) {
+            headers = response.headers
+          },
+        },
+      },
+      { cors: { trustedOrigin: [/\.example\.com$/] } }
+    )
+    expect(await client.greeting()).toBe('Bonjour')
+    expect(headers?.get('Vary')).toBe('Accept-Language, Origin')
+  })
+
+  test('auth token is refreshed after a 401 response', async () => {
+    let token = 'stale'
+    const refreshToken = vi.fn(async () => {
+      token = 'fresh'
+    })
+    const client = await getTestClient({
+      auth: { getToken: () => token, refreshToken },
+    })
+    const results = await Promise.all([
+      client.protectedRoute(),
+      client.protectedRoute(),
+    ])
+    expect(results).toEqual([true, true])
+    expect(refreshToken).toHaveBeenCalledTimes(1)
+  })
+
+  test('auth token refresh that fails to fix a 401 response', async () => {
+    const refreshToken = vi.fn(async () => {})
+    const client = await getTestClient({
+      auth: { getToken: () => 'stale', refreshToken },
+    })
+    await expect(
+      client.protectedRoute()
+    ).rejects.toThrowErrorMatchingInlineSnapshot(
+      `[UnauthorizedError: Server responded with 401 status code]`
+    )
+    expect(refreshToken).toHaveBeenCalledTimes(1)
+  })
+
+  test('in-process test client with injected context', async () => {
+    const clientRoutes = await import(
+      './client/__fixtures__/kitchen-sink/client/generated/api.js'
+    )
+    const { default: serverRoutes } = await import(
+      './client/__fixtures__/kitchen-sink/server/generated/api.js'
+    )
+    const client = createTestClient(
+      { server: serverRoutes, client: clientRoutes.default },
+      { context: () => ({ user: 'ada' }) }
+    )
+    expect(await client.currentUser()).toBe('ada')
+    expect(await client.one()).toBe(1)
+  })
+
+  test('in-process test client with a WebSocket connection', async () => {
+    const client = await getWebSocketClient({
+      context: () => ({ user: 'ada' }),
+      headers: { 'X-Request-Id': '123' },
+    })
+    expect(await client.connectionInfo()).toEqual({
+      user: 'ada',
+      requestId: '123',
+    })
+  })
+
+  test('WebSocket request that calls a client handler', async () => {
+    const confirm = vi.fn(() => true)
+    const client = await getWebSocketClient({ wsHandlers: { confirm } })
+
+    // The request and the server's call to `confirm` have the same ID.
+    expect(await client.confirmDelete('post')).toBe(true)
+    expect(confirm).toHaveBeenCalledWith('Delete post?')
+  })
+
+  test('WebSocket request with invalid params', async () => {
+    const client = await getWebSocketClient()
+
+    await expect(client.confirmDelete('')).rejects.toMatchObject({
+      code: 400,
+      message: 'Expected string length greater or equal to 1',
+      data: { path: '/0', value: '' },
+    })
+  })
+
+  test('WebSocket stream is resubscribed after the connection is lost', async () => {
+    const client = await getWebSocketClient({
+      wsReconnect: { delay: () => 0 },
+    })
+    const events: string[] = []
+    client.on('connecting', () => events.push('connecting'))
+    client.on('open', () => events.push('open'))
+    client.on('reconnecting', attempt => events.push(`reconnecting ${attempt}`))
+    client.on('closed', () => events.push('closed'))
+
+    const values: number[] = []
+    for await (const value of client.countTo(3)) {
+      values.push(value)
+      if (values.length === 1) {
+        dropConnection(client.ws!)
+      }
+    }
+
+    // The server starts over, since the stream has no cursor.
+    expect(values).toEqual([1, 1, 2, 3])
+    expect(events).toEqual([
+      'connecting',
+      'open',
+      'reconnecting 1',
+      'connecting',
+      'open',
+    ])
+  })
+
+  test('WebSocket topic delivers published data to subscribed clients', async () => {
+    // Both connections need the same pub/sub, like in a real server.
+    const options = { wsOptions: { pubsub: createMemoryPubSub() } }
+    const alice = await getWebSocketClient(options)
+    const bob = await getWebSocketClient(options)
+
+    const received: { from: string; text: string }[] = []
+    alice.chatMessages(message => received.push(message))
+
+    const aliceId = await alice.joinChat()
+    const message = await bob.sendChatMessage('hello')
+    expect(message.from).not.toBe(aliceId)
+    expect(received).toEqual([message])
+
+    await alice.leaveChat()
+    await bob.sendChatMessage('goodbye')
+    expect(received).toEqual([message])
+  })
+
+  test('mock client with generated values', async () => {
+    const clientRoutes = await import(
+      './client/__fixtures__/kitchen-sink/client/generated/api.js'
+    )
+    const { default: values } = await import(
+      './client/__fixtures__/kitchen-sink/client/generated/mocks.js'
+    )
+    const client = defineMockClient(
+      clientRoutes.default,
+      {
+        singleParam: id => (typeof id === 'string' ? id : id.id),
+        streamPosts: () => [1, 2],
+      },
+      { values }
+    )
+    expect(await client.singleParam('123')).toBe('123')
+    expect(await client.streamPosts().toArray()).toEqual([1, 2])
+    expect(await client.one()).toBe(1)
+    expect(await client.revivedResult()).toEqual({
+      date: new Date(0),
+      count: 0n,
+    })
+  })
 })
 
-async function getTestClient() {
+async function getWebSocketClient(options?: TestClientOptions) {
+  const clientRoutes = await import(
+    './client/__fixtures__/kitchen-sink/client/generated/api.js'
+  )
+  const { default: serverRoutes } = await import(
+    './client/__fixtures__/kitchen-sink/server/generated/api.js'
+  )
+  return createTestClient(
+    { server: serverRoutes, client: clientRoutes.default },
+    options
+  )
+}
+
+/**
+ * Forward the given number of JSON text sequence records, then error.
+ */
+function dropAfterRecords(body: ReadableStream<Uint8Array>, count: number) {
+  let records = 0
+  return body.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        for (let i = 0; i < chunk.length; i++) {
+          if (chunk[i] === 0x0a && ++records === count) {
+            controller.enqueue(chunk.subarray(0, i + 1))
+            return controller.error(new TypeError('Connection lost'))
+          }
+        }
+        controller.enqueue(chunk)
+      },
+    })
+  )
+}
+
+/**
+ * Close the socket as if the network failed, without telling the server.
+ */
+function dropConnection(ws: WebSocket) {
+  Object.defineProperty(ws, 'readyState', { value: ws.CLOSED })
+  ws.dispatchEvent(
+    Object.assign(new Event('close'), { code: 1006, wasClean: false })
+  )
+}
+
+async function getTestClient(
+  options?: ClientOptions,
+  routeOptions?: CompileRoutesOptions
+) {
   const clientRoutes = await import(
     './client/__fixtures__/kitchen-sink/client/generated/api.js'
   )
@@ -121,12 +731,13 @@ async function getTestClient() {
     './client/__fixtures__/kitchen-sink/server/generated/api.js'
   )
 
-  const handler = compileRoutes(serverRoutes)
+  const handler = compileRoutes(serverRoutes, routeOptions)
 
   return defineClient(clientRoutes.default, {
     prefixUrl: 'http://example.com/',
     fetch: createFetch({
       handler: chain(handler),
     }),
+    ...options,
   })
 }
@@ -9,10 +9,38 @@
  *   - A route that throws an error
  *   - A route that streams continuously (via async generator)
  *   - A route that returns a paginated result
+ *   - A route that streams server-sent events
+ *   - A route that streams with resumable cursors
+ *   - A route that returns an invalid response
+ *   - A route that returns Date and bigint values
+ *   - A route that reads a request header
+ *   - A route that sets a response header
+ *   - A route that requires a bearer token
+ *   - A route that reads the request context
+ *   - A WebSocket route that calls a client handler
+ *   - A WebSocket route that reads the connection context
+ *   - A WebSocket route that streams
+ *   - WebSocket routes that subscribe and publish to a topic
  */
-import { paginate, route } from '@alien-rpc/service'
+import {
+  getStreamCursor,
+  paginate,
+  route,
+  setStreamCursor,
+  t,
+  UnauthorizedError,
+  ws,
+} from '@alien-rpc/service'
 import { sleep } from 'radashi'
 
+declare module '@alien-rpc/service' {
+  namespace ws {
+    interface ClientHandlers {
+      confirm: (question: string) => boolean
+    }
+  }
+}
+
 /**
  * A route that takes no parameters
  */
@@ -58,14 +86,54 @@ export const streamPosts = route('/posts/stream').get(async function* ({
   })
 })
 
+/**
+ * A route that streams a paginated result as server-sent events
+ *
+ * @format sse
+ */
+export const streamPostEvents = route('/posts/events').get(async function* ({
+  offset = 0,
+}: {
+  offset?: number
+}) {
+  yield 1 + offset
+  yield 2 + offset
+
+  return paginate(this, {
+    next: { offset: offset + 2 },
+    prev: offset > 0 ? { offset: offset - 2 } : null,
+  })
+})
+
+/**
+ * A route that streams with a cursor, so it can be resumed after the
+ * connection is lost
+ */
+export const streamResumable = route('/numbers/resumable').get(
+  async function* (_, ctx) {
+    let cursor = getStreamCursor<number>(ctx) ?? 0
+    while (cursor < 4) {
+      yield ++cursor
+      setStreamCursor(ctx, cursor)
+    }
+  }
+)
+
 /**
  * A route that takes a JSON request body
  */
 export const createPost = route('/posts').post(
-  async (input: { title: string; text: string }) => {
+  async ({
+    title,
+    text,
+  }: {
+    title: string
+    text: string
+    slug?: string & t.MinLength<5> & t.Pattern<'^[a-z-]+$'>
+  }) => {
     await sleep(5)
 
-    return input
+    return { title, text }
   }
 )
 
@@ -82,3 +150,122 @@ export const throwError = route('/error').get(() => {
 export const rawResponse = route('/raw/*wild').get((wild): Response => {
   return new Response(wild)
 })
+
+/**
+ * A route whose result has a property its declared type doesn't allow
+ */
+export const invalidResponse = route('/invalid-response').get(
+  (): { id: number } => {
+    const user = { id: 1, password: 'hunter2' }
+    return user
+  }
+)
+
+/**
+ * A route whose result is revived by the client
+ */
+export const revivedResult = route('/revived-result').get(() => ({
+  date: new Date(0),
+  count: 1n,
+}))
+
+/**
+ * A route that reads a request header
+ */
+export const requestId = route('/request-id').get((_, ctx) =>
+  ctx.request.headers.get('X-Request-Id')
+)
+
+/**
+ * A route that sets a response header
+ */
+export const greeting = route('/greeting').get((_, ctx) => {
+  ctx.setHeader('Vary', 'Accept-Language')
+  return ctx.request.headers.get('Accept-Language') === 'fr'
+    ? 'Bonjour'
+    : 'Hello'
+})
+
+/**
+ * A route that requires a bearer token
+ */
+export const protectedRoute = route('/protected', {
+  throws: [UnauthorizedError],
+}).get((_, ctx) => {
+  if (ctx.request.headers.get('Authorization') !== 'Bearer fresh') {
+    throw new UnauthorizedError()
+  }
+  return true
+})
+
+/**
+ * A route that reads the request context
+ */
+export const currentUser = route('/current-user').get(
+  (_, ctx) => (ctx as { user?: string }).user ?? null
+)
+
+/**
+ * A WebSocket route that asks the client to confirm before replying
+ */
+export const confirmDelete = route.ws(
+  async (name: string & t.MinLength<1>, ctx: ws.RequestContext) => {
+    return await ctx.client.confirm(`Delete ${name}?`)
+  }
+)
+
+/**
+ * A WebSocket route that reads the connection context
+ */
+export const connectionInfo = route.ws((ctx: ws.RequestContext) => ({
+  user: (ctx as { user?: string }).user ?? null,
+  requestId: ctx.headers.get('X-Request-Id'),
+}))
+
+/**
+ * A WebSocket route that streams numbers with a delay between them
+ */
+export const countTo = route.ws(async function* (
+  count: number,
+  ctx: ws.RequestContext
+) {
+  for (let i = 1; i <= count; i++) {
+    yield i
+    await sleep(10)
+  }
+})
+
+/**
+ * Messages posted to the chat room
+ */
+export const chatMessages = ws.topic<{ from: string; text: string }>(
+  'chatMessages'
+)
+
+/**
+ * A WebSocket route that subscribes to a topic, replying with the
+ * connection's ID
+ */
+export const joinChat = route.ws(async (ctx: ws.RequestContext) => {
+  await ctx.subscribe(chatMessages)
+  return ctx.id
+})
+
+/**
+ * A WebSocket route that unsubscribes from a topic, replying once it's done
+ */
+export const leaveChat = route.ws(async (ctx: ws.RequestContext) => {
+  await ctx.unsubscribe(chatMessages)
+  return true
+})
+
+/**
+ * A WebSocket route that publishes to a topic, replying with what it sent
+ */
+export const sendChatMessage = route.ws(
+  async (text: string, ctx: ws.RequestContext) => {
+    const message = { from: ctx.id, text }
+    await ctx.publish(chatMessages, message)
+    return message
+  }
+)
@@ -44,9 +44,11 @@ describe.concurrent('generator', () => {
         await generator.instance.waitForStart(3000)
         await generator.instance
 
-        const outputFiles = globSync('**/*.ts', {
-          cwd: generator.root,
-        })
+        // JSON files are generated too (e.g. the OpenAPI document).
+        const outputFiles = globSync(
+          ['**/*.ts', '**/*.json', '!tsconfig.json'],
+          { cwd: generator.root }
+        )
 
         const output = await Promise.all(
           sort(outputFiles, name => name.split('/').length).map(async name => {
@@ -181,9 +183,9 @@ describe.concurrent('generator', () => {
 
       export default [{path: "/authors/:id", method: "GET", pathParams: ["id"], name: "getAuthor", import: () => import("./api/authors.js"), format: "json", pathSchema: Type.Object({
       id: UUID
-      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never())}, {path: "/books/:id", method: "GET", pathParams: ["id"], name: "getBook", import: () => import("./api/books.js"), format: "json", pathSchema: Type.Object({
+      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never()), responseSchema: Type.Undefined()}, {path: "/books/:id", method: "GET", pathParams: ["id"], name: "getBook", import: () => import("./api/books.js"), format: "json", pathSchema: Type.Object({
       id: UUID
-      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never())}] as const
+      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never()), responseSchema: Type.Undefined()}] as const
 
       // client/api.ts
       import type { Route } from "@alien-rpc/client"
@@ -224,9 +226,11 @@ describe.concurrent('generator', () => {
 
       export default [{path: "/authors/:id", method: "GET", pathParams: ["id"], name: "getAuthor", import: () => import("./api/authors.js"), format: "json", pathSchema: Type.Object({
       id: UUID
-      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never())}, {path: "/books/:id", method: "GET", pathParams: ["id"], name: "getBook", import: () => import("./api/books.js"), format: "json", pathSchema: Type.Object({
+      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never()), responseSchema: Type.Undefined()}, {path: "/books/:id", method: "GET", pathParams: ["id"], name: "getBook", import: () => import("./api/books.js"), format: "json", pathSchema: Type.Object({
       id: UUID
-      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never())}, {path: "/books", method: "GET", name: "getBooks", import: () => import("./api/books.js"), format: "json", requestSchema: Type.Record(Type.String(), Type.Never())}] as const
+      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never()), responseSchema: Type.Undefined()}, {path: "/books", method: "GET", name: "getBooks", import: () => import("./api/books.js"), format: "json", requestSchema: Type.Record(Type.String(), Type.Never()), responseSchema: Type.Tuple([
+
+      ])}] as const
 
       // client/api.ts
       import type { Route } from "@alien-rpc/client"
@@ -268,9 +272,9 @@ describe.concurrent('generator', () => {
 
       export default [{path: "/authors/:id", method: "GET", pathParams: ["id"], name: "getAuthor", import: () => import("./api/authors.js"), format: "json", pathSchema: Type.Object({
       id: UUID
-      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never())}, {path: "/books/:id", method: "GET", pathParams: ["id"], name: "getBook", import: () => import("./api/books.js"), format: "json", pathSchema: Type.Object({
+      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never()), responseSchema: Type.Undefined()}, {path: "/books/:id", method: "GET", pathParams: ["id"], name: "getBook", import: () => import("./api/books.js"), format: "json", pathSchema: Type.Object({
       id: UUID
-      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never())}] as const
+      }, { additionalProperties: false }), requestSchema: Type.Record(Type.String(), Type.Never()), responseSchema: Type.Undefined()}] as const
 
       // client/api.ts
       import type { Route } from "@alien-rpc/client"
@@ -285,5 +289,103 @@ describe.concurrent('generator', () => {
     `)
   })
 
+  test('lockfile reports breaking changes', async () => {
+    const testDir = join(__dirname, '.tmp', uid(10))
+
+    mkdirSync(testDir, { recursive: true })
+    onTestFinished(() => {
+      rmSync(testDir, { recursive: true, force: true })
+    })
+
+    writeFileSync(
+      join(testDir, 'tsconfig.json'),
+      JSON.stringify({
+        compilerOptions: {
+          strict: true,
+          module: 'esnext',
+          moduleResolution: 'bundler',
+        },
+      })
+    )
+
+    const lockFile = join(testDir, 'alien-rpc.lock.json')
+    const readLockFile = () => JSON.parse(readFileSync(lockFile, 'utf-8'))
+
+    const generate = async (routes: string, versionPrefix?: string) => {
+      writeFileSync(join(testDir, 'routes.ts'), routes)
+
+      const instance = create({
+        include: 'routes.ts',
+        outDir: '.',
+        lockFile: 'alien-rpc.lock.json',
+        versionPrefix,
+        noFormat: true,
+      })({ root: testDir })
+
+      const events: any[] = []
+      instance.events.on('custom', event => {
+        if (event.type === 'contracts') {
+          events.push(event)
+        }
+      })
+
+      await instance
+      return events
+    }
+
+    const initialRoutes = dedent`
+      import { route } from '@alien-rpc/service'
+
+      export const getBook = route('/books/:id').get(async (id: string) => ({ title: '' }))
+      export const getBooks = route('/books').get(async ({ limit }: { limit?: number }) => [] as string[])
+      export const deleteBook = route('/books/:id').delete(async (id: string) => {})
+    `
+
+    // The lockfile is created on the first run.
+    expect(await generate(initialRoutes)).toEqual([
+      { type: 'contracts', lockFile, changes: null, versionChanged: false },
+    ])
+    expect(Object.keys(readLockFile().routes)).toEqual([
+      'getBook',
+      'getBooks',
+      'deleteBook',
+    ])
+
+    const changedRoutes = dedent`
+      import { route } from '@alien-rpc/service'
+
+      export const getBook = route('/books/:id').get(async (id: string) => ({ title: '', author: '' }))
+      export const getBooks = route('/books').get(async ({ limit }: { limit: number }) => [] as string[])
+      export const createBook = route('/books').post(async ({ title }: { title: string }) => {})
+    `
+
+    const changes = [
+      { route: 'deleteBook', message: 'Route was removed', breaking: true },
+      { route: 'getBook', message: 'Result was narrowed', breaking: false },
+      { route: 'getBooks', message: 'Request was narrowed', breaking: true },
+      { route: 'createBook', message: 'Route was added', breaking: false },
+    ]
+
+    // Breaking changes aren't saved without a new version.
+    expect(await generate(changedRoutes)).toEqual([
+      { type: 'contracts', lockFile, changes, versionChanged: false },
+    ])
+    expect(Object.keys(readLockFile().routes)).toEqual([
+      'getBook',
+      'getBooks',
+      'deleteBook',
+    ])
+
+    expect(await generate(changedRoutes, 'v2')).toEqual([
+      { type: 'contracts', lockFile, changes, versionChanged: true },
+    ])
+    expect(readLockFile().versionPrefix).toBe('v2')
+    expect(Object.keys(readLockFile().routes)).toEqual([
+      'getBook',
+      'getBooks',
+      'createBook',
+    ])
+  })
+
   afterAll(generators.clear)
 })
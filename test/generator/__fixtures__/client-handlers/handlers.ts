@@ -0,0 +1,21 @@
+export type Toast = {
+  message: string
+  kind?: 'info' | 'error'
+}
+
+/**
+ * Show a toast notification.
+ */
+export function showToast(toast: Toast) {
+  console.log(toast.message)
+}
+
+export const confirm = async (
+  question: string,
+  timeout?: number
+): Promise<boolean> => {
+  return question.length > 0
+}
+
+// Only functions are client handlers.
+export const version = 1
@@ -0,0 +1,3 @@
+import { route, ws } from '@alien-rpc/service'
+
+export const joinChat = route.ws((name: string, ctx: ws.RequestContext) => {})
@@ -0,0 +1,53 @@
+import { route, ws } from '@alien-rpc/service'
+
+type User = {
+  id: number
+  name: string
+  email?: string
+  role: 'admin' | 'member'
+  createdAt: Date
+  tags: string[]
+}
+
+export const getUser = route('/users/:id').get(
+  async (id: number): Promise<User> => {
+    return {
+      id,
+      name: 'Alice',
+      role: 'admin',
+      createdAt: new Date(),
+      tags: [],
+    }
+  }
+)
+
+export const streamUsers = route('/users').get(async function* () {
+  yield null as unknown as User
+})
+
+export const deleteUser = route('/users/:id').delete(async (id: number) => {})
+
+// Response objects can't be mocked.
+export const getAvatar = route('/users/:id/avatar').get(
+  async (id: number) => new Response(null)
+)
+
+export const countUsers = route.ws(
+  (role: string, ctx: ws.RequestContext): number => 0
+)
+
+export const watchUsers = route.ws(async function* (
+  role: string,
+  ctx: ws.RequestContext
+) {
+  yield null as unknown as User
+})
+
+export namespace admin {
+  export const getStats = route('/admin/stats').get(
+    async (): Promise<{ users: number; active: [number, boolean] }> => ({
+      users: 0,
+      active: [0, false],
+    })
+  )
+}
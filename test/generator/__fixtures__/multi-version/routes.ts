@@ -0,0 +1,29 @@
+import { route, ws } from '@alien-rpc/service'
+
+export const listUsers = route('/users').get(async () => {
+  return [{ id: 1, name: 'Alice' }]
+})
+
+/**
+ * Replaced by `getProfile` in v2.
+ */
+export const getUser = route('/users/:id', { until: 'v2' }).get(
+  async (id: number) => {
+    return { id, name: 'Alice' }
+  }
+)
+
+export const getProfile = route('/profiles/:id', { since: 'v2' }).get(
+  async (id: number) => {
+    return { id, name: 'Alice', bio: '' }
+  }
+)
+
+// Not served until v3 exists.
+export const deleteUser = route('/users/:id', { since: 'v3' }).delete(
+  async (id: number) => {}
+)
+
+export const countUsers = route.ws(async (ctx: ws.RequestContext) => {
+  return 1
+})
@@ -0,0 +1,46 @@
+import { route } from '@alien-rpc/service'
+
+type Post = {
+  id: number
+  title: string
+  tags?: string[]
+}
+
+/**
+ * Get a post by its ID.
+ */
+export const getPost = route('/posts/:id').get(
+  async (id: number): Promise<Post> => ({ id, title: '' })
+)
+
+/**
+ * Search the posts of a user.
+ */
+export const searchPosts = route('/users/:userId/posts').get(
+  async (userId: string, { query, limit }: { query: string; limit?: number }) =>
+    [] as Post[]
+)
+
+/**
+ * Create a post.
+ */
+export const createPost = route('/posts').post(
+  async ({
+    title,
+    tags,
+  }: {
+    title: string
+    tags?: string[]
+  }): Promise<Post> => ({
+    id: 1,
+    title,
+    tags,
+  })
+)
+
+/**
+ * Stream every new post.
+ */
+export const streamPosts = route('/posts/stream').get(async function* () {
+  yield null as unknown as Post
+})
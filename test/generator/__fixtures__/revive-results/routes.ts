@@ -0,0 +1,33 @@
+import { route } from '@alien-rpc/service'
+
+export const getEvent = route('/events/:id').get(
+  async (
+    id: string
+  ): Promise<{
+    id: string
+    startsAt: Date
+    endsAt?: Date
+    attendees: { name: string; joinedAt: Date }[]
+    views: bigint
+  }> => {
+    return {
+      id,
+      startsAt: new Date(),
+      attendees: [{ name: 'Alice', joinedAt: new Date() }],
+      views: 1n,
+    }
+  }
+)
+
+export const getCounters = route('/counters').get(
+  async (): Promise<Record<string, bigint>> => ({})
+)
+
+export const streamTimestamps = route('/timestamps').get(async function* () {
+  yield new Date()
+})
+
+// Nothing to revive, since a date string can't be told apart from a string.
+export const getAmbiguous = route('/ambiguous').get(
+  async (): Promise<{ value: Date | string }> => ({ value: '' })
+)
@@ -0,0 +1,16 @@
+import { route } from '@alien-rpc/service'
+
+export const streamNumbers = route('/numbers').get(async function* () {
+  yield 1
+  yield 2
+})
+
+/**
+ * Routes can opt out of the `streamFormat` option.
+ *
+ * @format json-seq
+ */
+export const streamLetters = route('/letters').get(async function* () {
+  yield 'a'
+  yield 'b'
+})
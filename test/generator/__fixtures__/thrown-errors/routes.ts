@@ -0,0 +1,44 @@
+import {
+  ConflictError,
+  defineHttpError,
+  JSONResponse,
+  route,
+} from '@alien-rpc/service'
+
+class NotFound extends JSONResponse<{ id: string }> {
+  declare readonly status: 404
+  constructor(id: string) {
+    super({ id }, { status: 404 })
+  }
+}
+
+class UserNotFound extends defineHttpError(404, 'UserNotFound')<{
+  userId: string
+}> {}
+
+declare const db: any
+
+export const getUser = route('/users/:id', { throws: [UserNotFound] }).get(
+  async (id: string) => {
+    const user: { name: string } | null = await db.getUser(id)
+    if (!user) {
+      throw new UserNotFound({ userId: id })
+    }
+    return user
+  }
+)
+
+export const createUser = route('/users', { throws: [ConflictError] }).post(
+  async ({ name }: { name: string }) => {
+    const id: number = await db.createUser({ name })
+    return id
+  }
+)
+
+/**
+ * @throws {NotFound} If the user doesn't exist.
+ * @throws {ConflictError} If the user is already deleted.
+ */
+export const deleteUser = route('/users/:id').delete(async (id: string) => {
+  await db.deleteUser(id)
+})
@@ -0,0 +1,18 @@
+import { route, ws } from '@alien-rpc/service'
+
+/**
+ * Messages posted to the chat room.
+ */
+export const chatMessages = ws.topic<{ from: string; text: string }>(
+  'chatMessages'
+)
+
+export const joinChat = route.ws(async (ctx: ws.RequestContext) => {
+  await ctx.subscribe(chatMessages)
+})
+
+export const sendChatMessage = route.ws(
+  async (text: string, ctx: ws.RequestContext) => {
+    await ctx.publish(chatMessages, { from: ctx.id, text })
+  }
+)
@@ -39,5 +39,10 @@ export default [
     import: () => import("../../routes.js"),
     format: "json-seq",
     requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Union([
+      Type.Literal(1),
+      Type.Literal(2),
+      Type.Literal(3),
+    ]),
   },
 ] as const;
@@ -45,5 +45,6 @@ export default [
     import: () => import("../../routes.js"),
     format: "json",
     requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Literal("foo"),
   },
 ] as const;
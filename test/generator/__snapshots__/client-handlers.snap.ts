@@ -0,0 +1,76 @@
+// @ts-nocheck
+
+/**
+ * handlers.ts
+ */
+export type Toast = {
+  message: string;
+  kind?: "info" | "error";
+};
+
+/**
+ * Show a toast notification.
+ */
+export function showToast(toast: Toast) {
+  console.log(toast.message);
+}
+
+export const confirm = async (
+  question: string,
+  timeout?: number,
+): Promise<boolean> => {
+  return question.length > 0;
+};
+
+// Only functions are client handlers.
+export const version = 1;
+
+/**
+ * routes.ts
+ */
+import { route, ws } from "@alien-rpc/service";
+
+export const joinChat = route.ws((name: string, ctx: ws.RequestContext) => {});
+
+/**
+ * client/generated/api.ts
+ */
+import type { Route, ws } from "@alien-rpc/client";
+import websocket from "@alien-rpc/client/protocols/websocket";
+
+export default {
+  joinChat: { protocol: websocket, pattern: "n" } as ws.Route<
+    (name: string, requestOptions?: ws.RequestOptions) => Promise<void>
+  >,
+};
+
+/**
+ * server/generated/api.ts
+ */
+import * as Type from "@sinclair/typebox/type";
+
+export default [
+  {
+    protocol: "ws",
+    name: "joinChat",
+    import: () => import("../../routes.js"),
+    requestSchema: Type.Tuple([Type.String()]),
+  },
+] as const;
+
+export type Toast = { message: string; kind?: "info" | "error" | undefined };
+
+declare module "@alien-rpc/service" {
+  namespace ws {
+    interface ClientHandlers {
+      /**
+       * Show a toast notification.
+       */
+      showToast: (toast: Toast) => void;
+      confirm: (
+        question: string,
+        timeout?: number | undefined,
+      ) => Promise<boolean>;
+    }
+  }
+}
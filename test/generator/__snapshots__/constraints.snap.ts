@@ -114,5 +114,6 @@ export default [
       },
       { additionalProperties: false },
     ),
+    responseSchema: Type.Undefined(),
   },
 ] as const;
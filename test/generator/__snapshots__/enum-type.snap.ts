@@ -90,5 +90,13 @@ export default [
       },
       { additionalProperties: false },
     ),
+    responseSchema: Type.Object(
+      {
+        type: ShapeType,
+        rectangle: Type.Literal(EnumShapeType.Rectangle),
+        circle: Type.Literal(EnumShapeType.Circle),
+      },
+      { additionalProperties: false },
+    ),
   },
 ] as const;
@@ -50,5 +50,15 @@ export default [
       { additionalProperties: false },
     ),
     requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Union([
+      Type.Object(
+        {
+          id: Type.Literal(1),
+          name: Type.Literal("John"),
+        },
+        { additionalProperties: false },
+      ),
+      Type.Null(),
+    ]),
   },
 ] as const;
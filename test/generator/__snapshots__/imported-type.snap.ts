@@ -139,6 +139,21 @@ export default [
     import: () => import("../../routes.js"),
     format: "json",
     requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        id: Type.String(),
+        title: Type.String(),
+        body: Type.String(),
+        author: Type.Object(
+          {
+            id: Type.String(),
+            name: Type.String(),
+          },
+          { additionalProperties: false },
+        ),
+      },
+      { additionalProperties: false },
+    ),
   },
   {
     path: "/image-posts",
@@ -152,5 +167,6 @@ export default [
       },
       { additionalProperties: false },
     ),
+    responseSchema: Type.Undefined(),
   },
 ] as const;
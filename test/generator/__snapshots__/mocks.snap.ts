@@ -0,0 +1,288 @@
+// @ts-nocheck
+
+/**
+ * routes.ts
+ */
+import { route, ws } from "@alien-rpc/service";
+
+type User = {
+  id: number;
+  name: string;
+  email?: string;
+  role: "admin" | "member";
+  createdAt: Date;
+  tags: string[];
+};
+
+export const getUser = route("/users/:id").get(
+  async (id: number): Promise<User> => {
+    return {
+      id,
+      name: "Alice",
+      role: "admin",
+      createdAt: new Date(),
+      tags: [],
+    };
+  },
+);
+
+export const streamUsers = route("/users").get(async function* () {
+  yield null as unknown as User;
+});
+
+export const deleteUser = route("/users/:id").delete(async (id: number) => {});
+
+// Response objects can't be mocked.
+export const getAvatar = route("/users/:id/avatar").get(
+  async (id: number) => new Response(null),
+);
+
+export const countUsers = route.ws(
+  (role: string, ctx: ws.RequestContext): number => 0,
+);
+
+export const watchUsers = route.ws(async function* (
+  role: string,
+  ctx: ws.RequestContext,
+) {
+  yield null as unknown as User;
+});
+
+export namespace admin {
+  export const getStats = route("/admin/stats").get(
+    async (): Promise<{ users: number; active: [number, boolean] }> => ({
+      users: 0,
+      active: [0, false],
+    }),
+  );
+}
+
+/**
+ * client/generated/api.ts
+ */
+import type { ResponseStream, Route, ws } from "@alien-rpc/client";
+import jsonSeq from "@alien-rpc/client/formats/json-seq";
+import websocket from "@alien-rpc/client/protocols/websocket";
+
+export default {
+  getUser: {
+    path: "users/:id",
+    method: "GET",
+    pathParams: ["id"],
+    arity: 2,
+    format: "json",
+    revive: { createdAt: "d" },
+  } as Route<
+    (pathParams: {
+      id: number;
+    }) => Promise<{
+      id: number;
+      name: string;
+      email?: string | undefined;
+      role: "admin" | "member";
+      createdAt: Date;
+      tags: string[];
+    }>
+  >,
+
+  streamUsers: {
+    path: "users",
+    method: "GET",
+    arity: 1,
+    format: jsonSeq,
+    revive: { createdAt: "d" },
+  } as Route<
+    () => ResponseStream<{
+      id: number;
+      name: string;
+      email?: string | undefined;
+      role: "admin" | "member";
+      createdAt: Date;
+      tags: string[];
+    }>
+  >,
+
+  deleteUser: {
+    path: "users/:id",
+    method: "DELETE",
+    pathParams: ["id"],
+    arity: 2,
+    format: "json",
+  } as Route<(pathParams: { id: number }) => Promise<undefined>>,
+
+  getAvatar: {
+    path: "users/:id/avatar",
+    method: "GET",
+    pathParams: ["id"],
+    arity: 2,
+    format: "response",
+  } as Route<(pathParams: { id: number }) => Promise<Response>>,
+
+  countUsers: { protocol: websocket, pattern: "r" } as ws.Route<
+    (role: string, requestOptions?: ws.RequestOptions) => Promise<number>
+  >,
+
+  watchUsers: { protocol: websocket, pattern: "s" } as ws.Route<
+    (
+      role: string,
+      requestOptions?: ws.RequestOptions,
+    ) => ReadableStream<{
+      id: number;
+      name: string;
+      email?: string | undefined;
+      role: "admin" | "member";
+      createdAt: string;
+      tags: string[];
+    }>
+  >,
+};
+
+export const admin = {
+  getStats: {
+    path: "admin/stats",
+    method: "GET",
+    arity: 1,
+    format: "json",
+  } as Route<() => Promise<{ users: number; active: [number, boolean] }>>,
+};
+
+/**
+ * client/generated/mocks.ts
+ */
+export default {
+  getUser: {
+    id: 0,
+    name: "",
+    role: "admin",
+    createdAt: "1970-01-01T00:00:00.000Z",
+    tags: [],
+  },
+  streamUsers: [
+    {
+      id: 0,
+      name: "",
+      role: "admin",
+      createdAt: "1970-01-01T00:00:00.000Z",
+      tags: [],
+    },
+  ],
+  deleteUser: undefined,
+  countUsers: 0,
+  watchUsers: [{ id: 0, name: "", role: "admin", createdAt: "", tags: [] }],
+};
+
+export const admin = {
+  getStats: { users: 0, active: [0, false] },
+};
+
+/**
+ * server/generated/api.ts
+ */
+import * as Type from "@sinclair/typebox/type";
+import { NumberParam } from "@alien-rpc/service/typebox";
+
+export default [
+  {
+    path: "/users/:id",
+    method: "GET",
+    pathParams: ["id"],
+    name: "getUser",
+    import: () => import("../../routes.js"),
+    format: "json",
+    pathSchema: Type.Object(
+      {
+        id: NumberParam(),
+      },
+      { additionalProperties: false },
+    ),
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        id: Type.Number(),
+        name: Type.String(),
+        email: Type.Optional(Type.Union([Type.String(), Type.Undefined()])),
+        role: Type.Union([Type.Literal("admin"), Type.Literal("member")]),
+        createdAt: Type.String(),
+        tags: Type.Array(Type.String()),
+      },
+      { additionalProperties: false },
+    ),
+  },
+  {
+    path: "/users",
+    method: "GET",
+    name: "streamUsers",
+    import: () => import("../../routes.js"),
+    format: "json-seq",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        id: Type.Number(),
+        name: Type.String(),
+        email: Type.Optional(Type.Union([Type.String(), Type.Undefined()])),
+        role: Type.Union([Type.Literal("admin"), Type.Literal("member")]),
+        createdAt: Type.String(),
+        tags: Type.Array(Type.String()),
+      },
+      { additionalProperties: false },
+    ),
+  },
+  {
+    path: "/users/:id",
+    method: "DELETE",
+    pathParams: ["id"],
+    name: "deleteUser",
+    import: () => import("../../routes.js"),
+    format: "json",
+    pathSchema: Type.Object(
+      {
+        id: NumberParam(),
+      },
+      { additionalProperties: false },
+    ),
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Undefined(),
+  },
+  {
+    path: "/users/:id/avatar",
+    method: "GET",
+    pathParams: ["id"],
+    name: "getAvatar",
+    import: () => import("../../routes.js"),
+    format: "response",
+    pathSchema: Type.Object(
+      {
+        id: NumberParam(),
+      },
+      { additionalProperties: false },
+    ),
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+  },
+  {
+    protocol: "ws",
+    name: "countUsers",
+    import: () => import("../../routes.js"),
+    requestSchema: Type.Tuple([Type.String()]),
+  },
+  {
+    protocol: "ws",
+    name: "watchUsers",
+    import: () => import("../../routes.js"),
+    requestSchema: Type.Tuple([Type.String()]),
+  },
+  {
+    path: "/admin/stats",
+    method: "GET",
+    name: "admin.getStats",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        users: Type.Number(),
+        active: Type.Tuple([Type.Number(), Type.Boolean()]),
+      },
+      { additionalProperties: false },
+    ),
+  },
+] as const;
@@ -0,0 +1,191 @@
+// @ts-nocheck
+
+/**
+ * routes.ts
+ */
+import { route, ws } from "@alien-rpc/service";
+
+export const listUsers = route("/users").get(async () => {
+  return [{ id: 1, name: "Alice" }];
+});
+
+/**
+ * Replaced by `getProfile` in v2.
+ */
+export const getUser = route("/users/:id", { until: "v2" }).get(
+  async (id: number) => {
+    return { id, name: "Alice" };
+  },
+);
+
+export const getProfile = route("/profiles/:id", { since: "v2" }).get(
+  async (id: number) => {
+    return { id, name: "Alice", bio: "" };
+  },
+);
+
+// Not served until v3 exists.
+export const deleteUser = route("/users/:id", { since: "v3" }).delete(
+  async (id: number) => {},
+);
+
+export const countUsers = route.ws(async (ctx: ws.RequestContext) => {
+  return 1;
+});
+
+/**
+ * server/generated/api.ts
+ */
+import * as Type from "@sinclair/typebox/type";
+import { NumberParam } from "@alien-rpc/service/typebox";
+
+export default [
+  {
+    path: "/v1/users",
+    method: "GET",
+    name: "listUsers",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Tuple([
+      Type.Object(
+        {
+          id: Type.Literal(1),
+          name: Type.Literal("Alice"),
+        },
+        { additionalProperties: false },
+      ),
+    ]),
+  },
+  {
+    path: "/v2/users",
+    method: "GET",
+    name: "listUsers",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Tuple([
+      Type.Object(
+        {
+          id: Type.Literal(1),
+          name: Type.Literal("Alice"),
+        },
+        { additionalProperties: false },
+      ),
+    ]),
+  },
+  {
+    path: "/v1/users/:id",
+    method: "GET",
+    pathParams: ["id"],
+    name: "getUser",
+    import: () => import("../../routes.js"),
+    format: "json",
+    pathSchema: Type.Object(
+      {
+        id: NumberParam(),
+      },
+      { additionalProperties: false },
+    ),
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        id: Type.Number(),
+        name: Type.Literal("Alice"),
+      },
+      { additionalProperties: false },
+    ),
+  },
+  {
+    path: "/v2/profiles/:id",
+    method: "GET",
+    pathParams: ["id"],
+    name: "getProfile",
+    import: () => import("../../routes.js"),
+    format: "json",
+    pathSchema: Type.Object(
+      {
+        id: NumberParam(),
+      },
+      { additionalProperties: false },
+    ),
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        id: Type.Number(),
+        name: Type.Literal("Alice"),
+        bio: Type.Literal(""),
+      },
+      { additionalProperties: false },
+    ),
+  },
+  {
+    protocol: "ws",
+    name: "countUsers",
+    import: () => import("../../routes.js"),
+    requestSchema: Type.Tuple([]),
+  },
+] as const;
+
+/**
+ * client/generated/v1/api.ts
+ */
+import type { Route, ws } from "@alien-rpc/client";
+import websocket from "@alien-rpc/client/protocols/websocket";
+
+export default {
+  listUsers: {
+    path: "v1/users",
+    method: "GET",
+    arity: 1,
+    format: "json",
+  } as Route<() => Promise<[{ id: 1; name: "Alice" }]>>,
+
+  /**
+   * Replaced by `getProfile` in v2.
+   */
+  getUser: {
+    path: "v1/users/:id",
+    method: "GET",
+    pathParams: ["id"],
+    arity: 2,
+    format: "json",
+  } as Route<
+    (pathParams: { id: number }) => Promise<{ id: number; name: "Alice" }>
+  >,
+
+  countUsers: { protocol: websocket, pattern: "r" } as ws.Route<
+    (requestOptions?: ws.RequestOptions) => Promise<number>
+  >,
+};
+
+/**
+ * client/generated/v2/api.ts
+ */
+import type { Route, ws } from "@alien-rpc/client";
+import websocket from "@alien-rpc/client/protocols/websocket";
+
+export default {
+  listUsers: {
+    path: "v2/users",
+    method: "GET",
+    arity: 1,
+    format: "json",
+  } as Route<() => Promise<[{ id: 1; name: "Alice" }]>>,
+
+  getProfile: {
+    path: "v2/profiles/:id",
+    method: "GET",
+    pathParams: ["id"],
+    arity: 2,
+    format: "json",
+  } as Route<
+    (pathParams: {
+      id: number;
+    }) => Promise<{ id: number; name: "Alice"; bio: "" }>
+  >,
+
+  countUsers: { protocol: websocket, pattern: "r" } as ws.Route<
+    (requestOptions?: ws.RequestOptions) => Promise<number>
+  >,
+};
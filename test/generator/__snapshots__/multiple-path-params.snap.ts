@@ -40,5 +40,6 @@ export default [
     import: () => import("../../routes.js"),
     format: "json",
     requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Undefined(),
   },
 ] as const;
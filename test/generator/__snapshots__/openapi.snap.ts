@@ -0,0 +1,490 @@
+// @ts-nocheck
+
+/**
+ * openapi.json
+ */
+{
+  "openapi": "3.1.0",
+  "info": {
+    "title": "alien-rpc",
+    "version": "0.0.0"
+  },
+  "paths": {
+    "/posts/{id}": {
+      "get": {
+        "operationId": "getPost",
+        "summary": "Get a post by its ID.",
+        "parameters": [
+          {
+            "name": "id",
+            "in": "path",
+            "required": true,
+            "schema": {
+              "type": "number"
+            }
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "OK",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "additionalProperties": false,
+                  "type": "object",
+                  "required": ["id", "title"],
+                  "properties": {
+                    "id": {
+                      "type": "number"
+                    },
+                    "title": {
+                      "type": "string"
+                    },
+                    "tags": {
+                      "type": "array",
+                      "items": {
+                        "type": "string"
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "400": {
+            "$ref": "#/components/responses/BadRequest"
+          }
+        }
+      }
+    },
+    "/users/{userId}/posts": {
+      "get": {
+        "operationId": "searchPosts",
+        "summary": "Search the posts of a user.",
+        "parameters": [
+          {
+            "name": "userId",
+            "in": "path",
+            "required": true,
+            "schema": {
+              "type": "string"
+            }
+          },
+          {
+            "name": "query",
+            "in": "query",
+            "required": true,
+            "schema": {
+              "type": "string"
+            }
+          },
+          {
+            "name": "limit",
+            "in": "query",
+            "required": false,
+            "schema": {
+              "type": "number"
+            }
+          }
+        ],
+        "responses": {
+          "200": {
+            "description": "OK",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "type": "array",
+                  "items": {
+                    "additionalProperties": false,
+                    "type": "object",
+                    "required": ["id", "title"],
+                    "properties": {
+                      "id": {
+                        "type": "number"
+                      },
+                      "title": {
+                        "type": "string"
+                      },
+                      "tags": {
+                        "type": "array",
+                        "items": {
+                          "type": "string"
+                        }
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "400": {
+            "$ref": "#/components/responses/BadRequest"
+          }
+        }
+      }
+    },
+    "/posts": {
+      "post": {
+        "operationId": "createPost",
+        "summary": "Create a post.",
+        "requestBody": {
+          "required": true,
+          "content": {
+            "application/json": {
+              "schema": {
+                "additionalProperties": false,
+                "type": "object",
+                "required": ["title"],
+                "properties": {
+                  "title": {
+                    "type": "string"
+                  },
+                  "tags": {
+                    "type": "array",
+                    "items": {
+                      "type": "string"
+                    }
+                  }
+                }
+              }
+            }
+          }
+        },
+        "responses": {
+          "200": {
+            "description": "OK",
+            "content": {
+              "application/json": {
+                "schema": {
+                  "additionalProperties": false,
+                  "type": "object",
+                  "required": ["id", "title"],
+                  "properties": {
+                    "id": {
+                      "type": "number"
+                    },
+                    "title": {
+                      "type": "string"
+                    },
+                    "tags": {
+                      "type": "array",
+                      "items": {
+                        "type": "string"
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "400": {
+            "$ref": "#/components/responses/BadRequest"
+          }
+        }
+      }
+    },
+    "/posts/stream": {
+      "get": {
+        "operationId": "streamPosts",
+        "summary": "Stream every new post.",
+        "responses": {
+          "200": {
+            "description": "A JSON text sequence (RFC 7464), where each record matches the schema. It may end with a pagination record. The Content-Type is application/octet-stream, while the X-Content-Type header is application/json-seq.",
+            "headers": {
+              "X-Content-Type": {
+                "description": "The actual content type of the response.",
+                "schema": {
+                  "type": "string",
+                  "const": "application/json-seq"
+                }
+              }
+            },
+            "content": {
+              "application/octet-stream": {
+                "schema": {
+                  "additionalProperties": false,
+                  "type": "object",
+                  "required": ["id", "title"],
+                  "properties": {
+                    "id": {
+                      "type": "number"
+                    },
+                    "title": {
+                      "type": "string"
+                    },
+                    "tags": {
+                      "type": "array",
+                      "items": {
+                        "type": "string"
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          },
+          "400": {
+            "$ref": "#/components/responses/BadRequest"
+          }
+        }
+      }
+    }
+  },
+  "components": {
+    "schemas": {
+      "ValidationError": {
+        "type": "object",
+        "properties": {
+          "message": {
+            "type": "string"
+          },
+          "path": {
+            "type": "string"
+          },
+          "value": {}
+        },
+        "required": ["message"]
+      }
+    },
+    "responses": {
+      "BadRequest": {
+        "description": "The request failed validation.",
+        "content": {
+          "application/json": {
+            "schema": {
+              "$ref": "#/components/schemas/ValidationError"
+            }
+          }
+        }
+      }
+    }
+  }
+}
+
+/**
+ * routes.ts
+ */
+import { route } from "@alien-rpc/service";
+
+type Post = {
+  id: number;
+  title: string;
+  tags?: string[];
+};
+
+/**
+ * Get a post by its ID.
+ */
+export const getPost = route("/posts/:id").get(
+  async (id: number): Promise<Post> => ({ id, title: "" }),
+);
+
+/**
+ * Search the posts of a user.
+ */
+export const searchPosts = route("/users/:userId/posts").get(
+  async (userId: string, { query, limit }: { query: string; limit?: number }) =>
+    [] as Post[],
+);
+
+/**
+ * Create a post.
+ */
+export const createPost = route("/posts").post(
+  async ({
+    title,
+    tags,
+  }: {
+    title: string;
+    tags?: string[];
+  }): Promise<Post> => ({
+    id: 1,
+    title,
+    tags,
+  }),
+);
+
+/**
+ * Stream every new post.
+ */
+export const streamPosts = route("/posts/stream").get(async function* () {
+  yield null as unknown as Post;
+});
+
+/**
+ * client/generated/api.ts
+ */
+import type { ResponseStream, Route } from "@alien-rpc/client";
+import jsonSeq from "@alien-rpc/client/formats/json-seq";
+
+export default {
+  /**
+   * Get a post by its ID.
+   */
+  getPost: {
+    path: "posts/:id",
+    method: "GET",
+    pathParams: ["id"],
+    arity: 2,
+    format: "json",
+  } as Route<
+    (pathParams: {
+      id: number;
+    }) => Promise<{ id: number; title: string; tags?: string[] | undefined }>
+  >,
+
+  /**
+   * Search the posts of a user.
+   */
+  searchPosts: {
+    path: "users/:userId/posts",
+    method: "GET",
+    pathParams: ["userId"],
+    arity: 2,
+    format: "json",
+  } as Route<
+    (
+      pathParams: { userId: string },
+      searchParams: { query: string; limit?: number | undefined },
+    ) => Promise<
+      Array<{ id: number; title: string; tags?: string[] | undefined }>
+    >
+  >,
+
+  /**
+   * Create a post.
+   */
+  createPost: {
+    path: "posts",
+    method: "POST",
+    arity: 2,
+    format: "json",
+  } as Route<
+    (
+      pathParams: unknown,
+      searchParams: unknown,
+      body: { title: string; tags?: string[] | undefined },
+    ) => Promise<{ id: number; title: string; tags?: string[] | undefined }>
+  >,
+
+  /**
+   * Stream every new post.
+   */
+  streamPosts: {
+    path: "posts/stream",
+    method: "GET",
+    arity: 1,
+    format: jsonSeq,
+  } as Route<
+    () => ResponseStream<{
+      id: number;
+      title: string;
+      tags?: string[] | undefined;
+    }>
+  >,
+};
+
+/**
+ * server/generated/api.ts
+ */
+import * as Type from "@sinclair/typebox/type";
+import { NumberParam } from "@alien-rpc/service/typebox";
+
+export default [
+  {
+    path: "/posts/:id",
+    method: "GET",
+    pathParams: ["id"],
+    name: "getPost",
+    import: () => import("../../routes.js"),
+    format: "json",
+    pathSchema: Type.Object(
+      {
+        id: NumberParam(),
+      },
+      { additionalProperties: false },
+    ),
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        id: Type.Number(),
+        title: Type.String(),
+        tags: Type.Optional(
+          Type.Union([Type.Array(Type.String()), Type.Undefined()]),
+        ),
+      },
+      { additionalProperties: false },
+    ),
+  },
+  {
+    path: "/users/:userId/posts",
+    method: "GET",
+    pathParams: ["userId"],
+    name: "searchPosts",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Object(
+      {
+        query: Type.String(),
+        limit: Type.Optional(Type.Union([Type.Number(), Type.Undefined()])),
+      },
+      { additionalProperties: false },
+    ),
+    responseSchema: Type.Array(
+      Type.Object(
+        {
+          id: Type.Number(),
+          title: Type.String(),
+          tags: Type.Optional(
+            Type.Union([Type.Array(Type.String()), Type.Undefined()]),
+          ),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+  },
+  {
+    path: "/posts",
+    method: "POST",
+    name: "createPost",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Object(
+      {
+        title: Type.String(),
+        tags: Type.Optional(
+          Type.Union([Type.Array(Type.String()), Type.Undefined()]),
+        ),
+      },
+      { additionalProperties: false },
+    ),
+    responseSchema: Type.Object(
+      {
+        id: Type.Number(),
+        title: Type.String(),
+        tags: Type.Optional(
+          Type.Union([Type.Array(Type.String()), Type.Undefined()]),
+        ),
+      },
+      { additionalProperties: false },
+    ),
+  },
+  {
+    path: "/posts/stream",
+    method: "GET",
+    name: "streamPosts",
+    import: () => import("../../routes.js"),
+    format: "json-seq",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        id: Type.Number(),
+        title: Type.String(),
+        tags: Type.Optional(
+          Type.Union([Type.Array(Type.String()), Type.Undefined()]),
+        ),
+      },
+      { additionalProperties: false },
+    ),
+  },
+] as const;
@@ -75,5 +75,13 @@ export default [
       },
       { additionalProperties: false },
     ),
+    responseSchema: Type.Object(
+      {
+        id: Type.Number(),
+        title: Type.String(),
+        content: Type.String(),
+      },
+      { additionalProperties: false },
+    ),
   },
 ] as const;
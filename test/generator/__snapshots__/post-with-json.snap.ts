@@ -52,5 +52,6 @@ export default [
       },
       { additionalProperties: false },
     ),
+    responseSchema: Type.Number(),
   },
 ] as const;
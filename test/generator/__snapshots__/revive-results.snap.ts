@@ -0,0 +1,166 @@
+// @ts-nocheck
+
+/**
+ * routes.ts
+ */
+import { route } from "@alien-rpc/service";
+
+export const getEvent = route("/events/:id").get(
+  async (
+    id: string,
+  ): Promise<{
+    id: string;
+    startsAt: Date;
+    endsAt?: Date;
+    attendees: { name: string; joinedAt: Date }[];
+    views: bigint;
+  }> => {
+    return {
+      id,
+      startsAt: new Date(),
+      attendees: [{ name: "Alice", joinedAt: new Date() }],
+      views: 1n,
+    };
+  },
+);
+
+export const getCounters = route("/counters").get(
+  async (): Promise<Record<string, bigint>> => ({}),
+);
+
+export const streamTimestamps = route("/timestamps").get(async function* () {
+  yield new Date();
+});
+
+// Nothing to revive, since a date string can't be told apart from a string.
+export const getAmbiguous = route("/ambiguous").get(
+  async (): Promise<{ value: Date | string }> => ({ value: "" }),
+);
+
+/**
+ * client/generated/api.ts
+ */
+import type { ResponseStream, Route } from "@alien-rpc/client";
+import jsonSeq from "@alien-rpc/client/formats/json-seq";
+
+export default {
+  getEvent: {
+    path: "events/:id",
+    method: "GET",
+    pathParams: ["id"],
+    arity: 2,
+    format: "json",
+    revive: {
+      startsAt: "d",
+      endsAt: "d",
+      attendees: [{ joinedAt: "d" }],
+      views: "b",
+    },
+  } as Route<
+    (pathParams: {
+      id: string;
+    }) => Promise<{
+      id: string;
+      startsAt: Date;
+      endsAt?: Date | undefined;
+      attendees: { name: string; joinedAt: Date }[];
+      views: bigint;
+    }>
+  >,
+
+  getCounters: {
+    path: "counters",
+    method: "GET",
+    arity: 1,
+    format: "json",
+    revive: { "*": "b" },
+  } as Route<() => Promise<{ [x: string]: bigint }>>,
+
+  streamTimestamps: {
+    path: "timestamps",
+    method: "GET",
+    arity: 1,
+    format: jsonSeq,
+    revive: "d",
+  } as Route<() => ResponseStream<Date>>,
+
+  getAmbiguous: {
+    path: "ambiguous",
+    method: "GET",
+    arity: 1,
+    format: "json",
+  } as Route<() => Promise<{ value: string }>>,
+};
+
+/**
+ * server/generated/api.ts
+ */
+import * as Type from "@sinclair/typebox/type";
+
+export default [
+  {
+    path: "/events/:id",
+    method: "GET",
+    pathParams: ["id"],
+    name: "getEvent",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        id: Type.String(),
+        startsAt: Type.String(),
+        endsAt: Type.Optional(Type.Union([Type.String(), Type.Undefined()])),
+        attendees: Type.Array(
+          Type.Object(
+            {
+              name: Type.String(),
+              joinedAt: Type.String(),
+            },
+            { additionalProperties: false },
+          ),
+        ),
+        views: Type.String(),
+      },
+      { additionalProperties: false },
+    ),
+  },
+  {
+    path: "/counters",
+    method: "GET",
+    name: "getCounters",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {},
+      {
+        additionalProperties: Type.String(),
+      },
+      { additionalProperties: false },
+    ),
+  },
+  {
+    path: "/timestamps",
+    method: "GET",
+    name: "streamTimestamps",
+    import: () => import("../../routes.js"),
+    format: "json-seq",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.String(),
+  },
+  {
+    path: "/ambiguous",
+    method: "GET",
+    name: "getAmbiguous",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        value: Type.String(),
+      },
+      { additionalProperties: false },
+    ),
+  },
+] as const;
@@ -0,0 +1,75 @@
+// @ts-nocheck
+
+/**
+ * routes.ts
+ */
+import { route } from "@alien-rpc/service";
+
+export const streamNumbers = route("/numbers").get(async function* () {
+  yield 1;
+  yield 2;
+});
+
+/**
+ * Routes can opt out of the `streamFormat` option.
+ *
+ * @format json-seq
+ */
+export const streamLetters = route("/letters").get(async function* () {
+  yield "a";
+  yield "b";
+});
+
+/**
+ * client/generated/api.ts
+ */
+import type { ResponseStream, Route } from "@alien-rpc/client";
+import sse from "@alien-rpc/client/formats/sse";
+import jsonSeq from "@alien-rpc/client/formats/json-seq";
+
+export default {
+  streamNumbers: {
+    path: "numbers",
+    method: "GET",
+    arity: 1,
+    format: sse,
+  } as Route<() => ResponseStream<1 | 2>>,
+
+  /**
+   * Routes can opt out of the `streamFormat` option.
+   *
+   * @format json-seq
+   */
+  streamLetters: {
+    path: "letters",
+    method: "GET",
+    arity: 1,
+    format: jsonSeq,
+  } as Route<() => ResponseStream<"a" | "b">>,
+};
+
+/**
+ * server/generated/api.ts
+ */
+import * as Type from "@sinclair/typebox/type";
+
+export default [
+  {
+    path: "/numbers",
+    method: "GET",
+    name: "streamNumbers",
+    import: () => import("../../routes.js"),
+    format: "sse",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Union([Type.Literal(1), Type.Literal(2)]),
+  },
+  {
+    path: "/letters",
+    method: "GET",
+    name: "streamLetters",
+    import: () => import("../../routes.js"),
+    format: "json-seq",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Union([Type.Literal("a"), Type.Literal("b")]),
+  },
+] as const;
@@ -0,0 +1,144 @@
+// @ts-nocheck
+
+/**
+ * routes.ts
+ */
+import {
+  ConflictError,
+  defineHttpError,
+  JSONResponse,
+  route,
+} from "@alien-rpc/service";
+
+class NotFound extends JSONResponse<{ id: string }> {
+  declare readonly status: 404;
+  constructor(id: string) {
+    super({ id }, { status: 404 });
+  }
+}
+
+class UserNotFound extends defineHttpError(404, "UserNotFound")<{
+  userId: string;
+}> {}
+
+declare const db: any;
+
+export const getUser = route("/users/:id", { throws: [UserNotFound] }).get(
+  async (id: string) => {
+    const user: { name: string } | null = await db.getUser(id);
+    if (!user) {
+      throw new UserNotFound({ userId: id });
+    }
+    return user;
+  },
+);
+
+export const createUser = route("/users", { throws: [ConflictError] }).post(
+  async ({ name }: { name: string }) => {
+    const id: number = await db.createUser({ name });
+    return id;
+  },
+);
+
+/**
+ * @throws {NotFound} If the user doesn't exist.
+ * @throws {ConflictError} If the user is already deleted.
+ */
+export const deleteUser = route("/users/:id").delete(async (id: string) => {
+  await db.deleteUser(id);
+});
+
+/**
+ * client/generated/api.ts
+ */
+import type { HTTPError, Route } from "@alien-rpc/client";
+
+export default {
+  getUser: {
+    path: "users/:id",
+    method: "GET",
+    pathParams: ["id"],
+    arity: 2,
+    format: "json",
+  } as Route<
+    (pathParams: { id: string }) => Promise<{ name: string }>,
+    HTTPError<404, { userId: string; name: "UserNotFound" }>
+  >,
+
+  createUser: {
+    path: "users",
+    method: "POST",
+    arity: 2,
+    format: "json",
+  } as Route<
+    (
+      pathParams: unknown,
+      searchParams: unknown,
+      body: { name: string },
+    ) => Promise<number>,
+    HTTPError<409, { message?: string | undefined; name: "ConflictError" }>
+  >,
+
+  /**
+   * @throws {NotFound} If the user doesn't exist.
+   * @throws {ConflictError} If the user is already deleted.
+   */
+  deleteUser: {
+    path: "users/:id",
+    method: "DELETE",
+    pathParams: ["id"],
+    arity: 2,
+    format: "json",
+  } as Route<
+    (pathParams: { id: string }) => Promise<undefined>,
+    | HTTPError<404, { id: string }>
+    | HTTPError<409, { message?: string | undefined; name: "ConflictError" }>
+  >,
+};
+
+/**
+ * server/generated/api.ts
+ */
+import * as Type from "@sinclair/typebox/type";
+
+export default [
+  {
+    path: "/users/:id",
+    method: "GET",
+    pathParams: ["id"],
+    name: "getUser",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Object(
+      {
+        name: Type.String(),
+      },
+      { additionalProperties: false },
+    ),
+  },
+  {
+    path: "/users",
+    method: "POST",
+    name: "createUser",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Object(
+      {
+        name: Type.String(),
+      },
+      { additionalProperties: false },
+    ),
+    responseSchema: Type.Number(),
+  },
+  {
+    path: "/users/:id",
+    method: "DELETE",
+    pathParams: ["id"],
+    name: "deleteUser",
+    import: () => import("../../routes.js"),
+    format: "json",
+    requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.Undefined(),
+  },
+] as const;
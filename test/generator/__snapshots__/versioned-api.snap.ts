@@ -43,5 +43,6 @@ export default [
     import: () => import("../../routes.js"),
     format: "json",
     requestSchema: Type.Record(Type.String(), Type.Never()),
+    responseSchema: Type.String(),
   },
 ] as const;
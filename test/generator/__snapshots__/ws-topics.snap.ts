@@ -0,0 +1,67 @@
+// @ts-nocheck
+
+/**
+ * routes.ts
+ */
+import { route, ws } from "@alien-rpc/service";
+
+/**
+ * Messages posted to the chat room.
+ */
+export const chatMessages = ws.topic<{ from: string; text: string }>(
+  "chatMessages",
+);
+
+export const joinChat = route.ws(async (ctx: ws.RequestContext) => {
+  await ctx.subscribe(chatMessages);
+});
+
+export const sendChatMessage = route.ws(
+  async (text: string, ctx: ws.RequestContext) => {
+    await ctx.publish(chatMessages, { from: ctx.id, text });
+  },
+);
+
+/**
+ * client/generated/api.ts
+ */
+import type { Route, ws } from "@alien-rpc/client";
+import websocket from "@alien-rpc/client/protocols/websocket";
+
+export default {
+  /**
+   * Messages posted to the chat room.
+   */
+  chatMessages: { protocol: websocket, topic: "chatMessages" } as ws.Topic<{
+    from: string;
+    text: string;
+  }>,
+
+  joinChat: { protocol: websocket, pattern: "n" } as ws.Route<
+    (requestOptions?: ws.RequestOptions) => Promise<void>
+  >,
+
+  sendChatMessage: { protocol: websocket, pattern: "n" } as ws.Route<
+    (text: string, requestOptions?: ws.RequestOptions) => Promise<void>
+  >,
+};
+
+/**
+ * server/generated/api.ts
+ */
+import * as Type from "@sinclair/typebox/type";
+
+export default [
+  {
+    protocol: "ws",
+    name: "joinChat",
+    import: () => import("../../routes.js"),
+    requestSchema: Type.Tuple([]),
+  },
+  {
+    protocol: "ws",
+    name: "sendChatMessage",
+    import: () => import("../../routes.js"),
+    requestSchema: Type.Tuple([Type.String()]),
+  },
+] as const;
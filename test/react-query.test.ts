@@ -0,0 +1,91 @@
+import { defineClient } from '@alien-rpc/client'
+import {
+  getQueryKey,
+  infiniteQueryOptions,
+  mutationOptions,
+  queryOptions,
+} from '@alien-rpc/react-query'
+import { compileRoutes } from '@alien-rpc/service'
+import { createTestClient as createFetch } from '@hattip/adapter-test'
+import { MutationObserver, QueryClient } from '@tanstack/react-query'
+import { chain } from 'alien-middleware'
+import { join } from 'node:path'
+import { createTestContext, TestContext } from './helper.js'
+
+describe.concurrent('react-query', async () => {
+  let generators: TestContext
+
+  beforeAll(async () => {
+    const fixturesDir = join(__dirname, 'client/__fixtures__')
+    const testDir = join(fixturesDir, 'kitchen-sink')
+
+    generators = createTestContext({ tempDir: false })
+    const generator = generators.get(testDir, {
+      reviveResults: true,
+      mocksOutFile: 'client/generated/mocks.ts',
+    })
+    await generator.start()
+  })
+
+  test('query options', async () => {
+    const client = await getTestClient()
+    const queryClient = new QueryClient()
+
+    const options = queryOptions(client.singleParam, { id: '123' })
+    expect(options.queryKey).toEqual(['GET', 'post/:id', { id: '123' }])
+    expect(await queryClient.fetchQuery(options)).toBe('123')
+
+    // Streamed results are collected into an array.
+    expect(
+      await queryClient.fetchQuery(queryOptions(client.streamPosts))
+    ).toEqual([1, 2])
+
+    await expect(
+      queryClient.fetchQuery(queryOptions(client.throwError, { retry: false }))
+    ).rejects.toThrowErrorMatchingInlineSnapshot(`[HTTPError: oops]`)
+  })
+
+  test('infinite query options', async () => {
+    const client = await getTestClient()
+    const queryClient = new QueryClient()
+
+    const options = infiniteQueryOptions(client.streamPosts)
+    await queryClient.fetchInfiniteQuery({ ...options, pages: 2 })
+
+    const data = queryClient.getQueryData(options.queryKey)
+    expect(data?.pages.map(page => page.items)).toEqual([
+      [1, 2],
+      [3, 4],
+    ])
+  })
+
+  test('mutation options', async () => {
+    const client = await getTestClient()
+    const queryClient = new QueryClient()
+
+    const options = mutationOptions(client.createPost)
+    expect(options.mutationKey).toEqual(getQueryKey(client.createPost))
+
+    const observer = new MutationObserver(queryClient, options)
+    expect(await observer.mutate({ title: 'Hello', text: 'World' })).toEqual({
+      title: 'Hello',
+      text: 'World',
+    })
+  })
+})
+
+async function getTestClient() {
+  const clientRoutes = await import(
+    './client/__fixtures__/kitchen-sink/client/generated/api.js'
+  )
+  const { default: serverRoutes } = await import(
+    './client/__fixtures__/kitchen-sink/server/generated/api.js'
+  )
+
+  return defineClient(clientRoutes.default, {
+    prefixUrl: 'http://example.com/',
+    fetch: createFetch({
+      handler: chain(compileRoutes(serverRoutes)),
+    }),
+  })
+}
@@ -8,6 +8,8 @@ const alias = {
     './packages/client/src/formats/json-seq.ts'
   ),
   '@alien-rpc/client': resolve('./packages/client/src/index.ts'),
+  '@alien-rpc/react-query': resolve('./packages/react-query/src/index.ts'),
+  '@alien-rpc/service/testing': resolve('./packages/service/src/testing.ts'),
   '@alien-rpc/service': resolve('./packages/service/src/index.ts'),
   '@alien-rpc/generator': resolve('./packages/generator/src/generator.ts'),
 }